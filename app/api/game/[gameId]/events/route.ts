@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGameEvents } from '@/lib/indexer';
+import { EventsResponse, serializeEvent } from '@/lib/events';
+import { parseDeploymentParams } from '@/lib/deployments';
+
+/**
+ * GET /api/game/:gameId/events?deployment=base-sepolia&event=RoundFinalized,PrizePaid
+ * Indexed contract events for a game, oldest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const contract = parseDeploymentParams(request.nextUrl.searchParams);
+  if (!contract) {
+    return NextResponse.json({ error: 'Unknown deployment' }, { status: 400 });
+  }
+
+  const { gameId: gameIdStr } = await params;
+  if (!/^\d+$/.test(gameIdStr)) {
+    return NextResponse.json({ error: 'Invalid game id' }, { status: 400 });
+  }
+
+  try {
+    const gameId = BigInt(gameIdStr);
+    const eventParam = request.nextUrl.searchParams.get('event');
+    const eventNames = eventParam ? eventParam.split(',').filter(Boolean) : undefined;
+
+    const { events, indexedThrough, caughtUp } = await getGameEvents(contract, gameId, eventNames);
+
+    const response: EventsResponse = {
+      events: events.map(serializeEvent),
+      indexedThrough: indexedThrough?.toString() ?? null,
+      caughtUp,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching game events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch game events' },
+      { status: 500 }
+    );
+  }
+}
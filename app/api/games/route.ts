@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Address, isAddress } from 'viem';
+import { listGames } from '@/lib/gameList';
+import { parseDeploymentParams } from '@/lib/deployments';
+import {
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_SORT_ORDER,
+  GAME_LIST_FILTERS,
+  GAME_LIST_SORTS,
+  GAME_SEARCH_PATTERN,
+  GameListFilter,
+  GameListSort,
+  MAX_PAGE_SIZE,
+  SORT_ORDERS,
+  SortOrder,
+} from '@/lib/gamesApi';
+
+/** Optional range bounds, as non-negative integers (wei for fees, seconds for durations) */
+const RANGE_PARAMS = ['minEntryFee', 'maxEntryFee', 'minRoundDuration', 'maxRoundDuration'] as const;
+
+/**
+ * GET /api/games?deployment=base-sepolia&status=open&sort=newest&limit=24&cursor=42&creator=0x...
+ *   &order=asc&search=42&minEntryFee=...&maxEntryFee=...&minRoundDuration=...&maxRoundDuration=...
+ * A page of serialized games plus the cursor for the next page.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const contract = parseDeploymentParams(params);
+  const status = (params.get('status') || 'all') as GameListFilter;
+  const sort = (params.get('sort') || 'newest') as GameListSort;
+  const limit = Number(params.get('limit') || DEFAULT_PAGE_SIZE);
+  const cursor = params.get('cursor');
+  const creator = params.get('creator');
+  const order = (params.get('order') || DEFAULT_SORT_ORDER[sort]) as SortOrder;
+  const search = params.get('search');
+
+  if (!contract) {
+    return NextResponse.json({ error: 'Unknown deployment' }, { status: 400 });
+  }
+  if (!GAME_LIST_FILTERS.includes(status)) {
+    return NextResponse.json({ error: `Invalid status "${status}"` }, { status: 400 });
+  }
+  if (!GAME_LIST_SORTS.includes(sort)) {
+    return NextResponse.json({ error: `Invalid sort "${sort}"` }, { status: 400 });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return NextResponse.json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` }, { status: 400 });
+  }
+  if (cursor && !/^\d+$/.test(cursor)) {
+    return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+  }
+  if (creator && !isAddress(creator)) {
+    return NextResponse.json({ error: 'Invalid creator address' }, { status: 400 });
+  }
+  if (!SORT_ORDERS.includes(order)) {
+    return NextResponse.json({ error: `Invalid order "${order}"` }, { status: 400 });
+  }
+  if (search && !GAME_SEARCH_PATTERN.test(search)) {
+    return NextResponse.json({ error: 'search must be a game id or a creator address prefix' }, { status: 400 });
+  }
+  const invalidRange = RANGE_PARAMS.find((name) => params.has(name) && !/^\d+$/.test(params.get(name)!));
+  if (invalidRange) {
+    return NextResponse.json({ error: `Invalid ${invalidRange}` }, { status: 400 });
+  }
+
+  try {
+    const page = await listGames({
+      contract,
+      status,
+      sort,
+      limit,
+      cursor: cursor ? BigInt(cursor) : null,
+      order,
+      creator: (creator as Address) || undefined,
+      search: search || undefined,
+      minEntryFee: params.has('minEntryFee') ? BigInt(params.get('minEntryFee')!) : undefined,
+      maxEntryFee: params.has('maxEntryFee') ? BigInt(params.get('maxEntryFee')!) : undefined,
+      minRoundDuration: params.has('minRoundDuration') ? Number(params.get('minRoundDuration')) : undefined,
+      maxRoundDuration: params.has('maxRoundDuration') ? Number(params.get('maxRoundDuration')) : undefined,
+    });
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error listing games:', error);
+    return NextResponse.json(
+      { error: 'Failed to list games' },
+      { status: 500 }
+    );
+  }
+}
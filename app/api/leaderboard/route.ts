@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildLeaderboard } from '@/lib/leaderboard';
+import { parseDeploymentParams } from '@/lib/deployments';
+import { LEADERBOARD_WINDOWS, LeaderboardWindow } from '@/lib/leaderboardApi';
+
+/**
+ * GET /api/leaderboard?deployment=base-sepolia&window=all|30d|games&games=1,2,3
+ * Per-wallet totals across the window's games, unsorted.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const contract = parseDeploymentParams(params);
+  const window = (params.get('window') || 'all') as LeaderboardWindow;
+  const games = (params.get('games') || '').split(',').filter(Boolean);
+
+  if (!contract) {
+    return NextResponse.json({ error: 'Unknown deployment' }, { status: 400 });
+  }
+  if (!LEADERBOARD_WINDOWS.includes(window)) {
+    return NextResponse.json({ error: `Invalid window "${window}"` }, { status: 400 });
+  }
+  if (games.some((id) => !/^\d+$/.test(id))) {
+    return NextResponse.json({ error: 'games must be a comma-separated list of game ids' }, { status: 400 });
+  }
+  if (window === 'games' && games.length === 0) {
+    return NextResponse.json({ error: 'window=games needs a games list' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await buildLeaderboard(contract, window, games.map(BigInt)));
+  } catch (error) {
+    console.error('Error building leaderboard:', error);
+    return NextResponse.json(
+      { error: 'Failed to build leaderboard' },
+      { status: 500 }
+    );
+  }
+}
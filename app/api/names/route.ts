@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Address, isAddress } from 'viem';
+import { resolveNames } from '@/lib/names';
+import { MAX_NAMES_PER_REQUEST } from '@/lib/namesApi';
+
+/**
+ * GET /api/names?addresses=0xabc...,0xdef...
+ * Basename or ENS name and avatar of each address, keyed by lowercased address.
+ */
+export async function GET(request: NextRequest) {
+  const addresses = (request.nextUrl.searchParams.get('addresses') || '').split(',').filter(Boolean);
+
+  if (addresses.length === 0) {
+    return NextResponse.json({ error: 'addresses is required' }, { status: 400 });
+  }
+  if (addresses.length > MAX_NAMES_PER_REQUEST) {
+    return NextResponse.json({ error: `At most ${MAX_NAMES_PER_REQUEST} addresses per request` }, { status: 400 });
+  }
+  const invalid = addresses.find((address) => !isAddress(address, { strict: false }));
+  if (invalid) {
+    return NextResponse.json({ error: `Invalid address "${invalid}"` }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ names: await resolveNames(addresses as Address[]) });
+  } catch (error) {
+    console.error('Error resolving names:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve names' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Address, isAddress } from 'viem';
+import { listPlayerGames } from '@/lib/playerGames';
+import { parseDeploymentParams } from '@/lib/deployments';
+
+/**
+ * GET /api/player/:address/games?deployment=base-sepolia
+ * Every game the address registered in, newest first, with its standing in each.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const contract = parseDeploymentParams(request.nextUrl.searchParams);
+  if (!contract) {
+    return NextResponse.json({ error: 'Unknown deployment' }, { status: 400 });
+  }
+
+  const { address } = await params;
+  if (!isAddress(address)) {
+    return NextResponse.json({ error: 'Invalid address' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await listPlayerGames(contract, address as Address));
+  } catch (error) {
+    console.error('Error listing player games:', error);
+    return NextResponse.json(
+      { error: 'Failed to list player games' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,10 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { createPublicClient, http, formatEther } from 'viem';
-import { baseSepolia } from 'viem/chains';
-import { CONTRACT_ADDRESS, contractABI } from '@/lib/contract';
+import { formatEther } from 'viem';
+import { contractABI, getPublicClient } from '@/lib/contract';
+import { getDeployment } from '@/lib/deployments';
+import { decodeFinancials, decodeGame, decodePlayer, decodeRound } from '@/lib/decoders';
 
 export default function DebugPage() {
   const [gameState, setGameState] = useState<any>(null);
@@ -14,33 +15,31 @@ export default function DebugPage() {
   }, []);
 
   async function diagnoseGame() {
-    const publicClient = createPublicClient({
-      chain: baseSepolia,
-      transport: http('https://sepolia.base.org'),
-    });
-
     try {
       const gameId = 3; // Game #3
+      // Diagnoses the default chain's deployment
+      const publicClient = getPublicClient();
+      const contractAddress = getDeployment().contract.address;
 
       // Get game
-      const game = await publicClient.readContract({
-        address: CONTRACT_ADDRESS,
+      const game = decodeGame(await publicClient.readContract({
+        address: contractAddress,
         abi: contractABI,
         functionName: 'games',
         args: [BigInt(gameId)],
-      }) as any;
+      }));
 
       // Get Round 1
-      const round1 = await publicClient.readContract({
-        address: CONTRACT_ADDRESS,
+      const round1 = decodeRound(await publicClient.readContract({
+        address: contractAddress,
         abi: contractABI,
         functionName: 'rounds',
         args: [BigInt(gameId), BigInt(1)],
-      }) as any;
+      }));
 
       // Get all players
       const players = await publicClient.readContract({
-        address: CONTRACT_ADDRESS,
+        address: contractAddress,
         abi: contractABI,
         functionName: 'getGamePlayers',
         args: [BigInt(gameId)],
@@ -49,12 +48,12 @@ export default function DebugPage() {
       // Check each player
       const playerDetails = [];
       for (const playerAddr of players) {
-        const player = await publicClient.readContract({
-          address: CONTRACT_ADDRESS,
+        const player = decodePlayer(await publicClient.readContract({
+          address: contractAddress,
           abi: contractABI,
           functionName: 'players',
           args: [BigInt(gameId), playerAddr],
-        }) as any;
+        }));
 
         playerDetails.push({
           address: playerAddr,
@@ -65,12 +64,12 @@ export default function DebugPage() {
       }
 
       // Get financials
-      const financials = await publicClient.readContract({
-        address: CONTRACT_ADDRESS,
+      const financials = decodeFinancials(await publicClient.readContract({
+        address: contractAddress,
         abi: contractABI,
         functionName: 'getGameFinancials',
         args: [BigInt(gameId)],
-      }) as any;
+      }));
 
       setGameState({
         game: {
@@ -95,9 +94,9 @@ export default function DebugPage() {
         },
         players: playerDetails,
         financials: {
-          prizePool: formatEther(financials[0]),
-          operationsFund: formatEther(financials[1]),
-          platformFee: formatEther(financials[2]),
+          prizePool: formatEther(financials.prizePool),
+          operationsFund: formatEther(financials.operationsFund),
+          platformFee: formatEther(financials.platformFee),
         },
       });
 
@@ -5,11 +5,28 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAccount, useReadContract } from 'wagmi';
 import { formatEther, formatUnits, parseAbiItem, parseEventLogs } from 'viem';
-import { CONTRACT_ADDRESS, contractABI, publicClient } from '@/lib/contract';
+import { contractABI } from '@/lib/contract';
+import { explorerAddressUrl, explorerTxUrl, getContractDeployment } from '@/lib/deployments';
 import GameBoard from '@/components/GameBoard';
 import Sidebar from '@/components/Sidebar';
+import ChainSwitcher from '@/components/ChainSwitcher';
 import { Address } from 'viem';
-import { fetchGamePlayers, PlayerData } from '@/lib/gameHelpers';
+import { fetchGamePlayers, PlayerData, rankPlayers } from '@/lib/gameHelpers';
+import { decodeGame, decodePlayer, decodePlayerSummary, decodeRound } from '@/lib/decoders';
+import { fetchGameEvents } from '@/lib/events';
+import { inferPlacements, PlacementInput, placementPrizes } from '@/lib/placements';
+import { canPerform, deriveGameStatus, GAME_STATUS_LABELS } from '@/lib/gameStatus';
+import { useGracePeriod } from '@/hooks/useGracePeriod';
+import { useNow } from '@/hooks/useNow';
+import { ContractDeploymentContext, useDeployment } from '@/hooks/useDeployment';
+import { useRoundStandings } from '@/hooks/useRoundStandings';
+import { ScoringModeContext, useScoringMode } from '@/hooks/useScoringMode';
+import { DEFAULT_SCORING_MODE, ScoringMode } from '@/lib/scoring';
+import ScoringModeToggle from '@/components/ScoringModeToggle';
+import PerformanceChart from '@/components/PerformanceChart';
+import GameReplay from '@/components/GameReplay';
+import GameActivity from '@/components/GameActivity';
+import PlayerLink from '@/components/PlayerLink';
 
 export interface WinnerData {
   address: Address;
@@ -18,64 +35,86 @@ export interface WinnerData {
   gainPercent: number | null;
 }
 
-interface GameData {
-  gameId: bigint;
-  startTime: bigint;
-  endTime: bigint;
-  currentRound: bigint;
-  totalRounds: bigint;
-  roundDuration: bigint;
-  playerCount: bigint;
-  prizePool: bigint;
-  active: boolean;
-  finalized: boolean;
-  cancelled: boolean;
-  entryFee: bigint;
-  registrationDeadline: bigint;
-  minPlayers: bigint;
-  operationsFund: bigint;
-  platformFee: bigint;
-  totalGasReimbursed: bigint;
-  totalGasSpent: bigint;
+export default function GamePage() {
+  const params = useParams();
+  const contract = getContractDeployment(String(params?.deployment ?? ''));
+  const [scoringMode, setScoringMode] = useState<ScoringMode>(DEFAULT_SCORING_MODE);
+  const scoring = useMemo(() => ({ mode: scoringMode, setMode: setScoringMode }), [scoringMode]);
+
+  if (!contract) {
+    return (
+      <div className="min-h-screen relative flex items-center justify-center bg-[var(--arena-bg)]">
+        <div className="arena-gradient-overlay" aria-hidden />
+        <p className="relative z-10 text-gray-400">Unknown deployment &quot;{String(params?.deployment)}&quot;</p>
+      </div>
+    );
+  }
+
+  // Pin every read and write on the page to the deployment in the URL
+  return (
+    <ContractDeploymentContext.Provider value={contract}>
+      <ScoringModeContext.Provider value={scoring}>
+        <GameView />
+      </ScoringModeContext.Provider>
+    </ContractDeploymentContext.Provider>
+  );
 }
 
-export default function GamePage() {
+/** Raw and penalty-adjusted gain side by side for the snapshot table */
+function ScoreCell({ player }: { player: PlayerData | undefined }) {
+  if (!player || player.isEliminated) {
+    return <td className="py-3 px-3 text-center text-xs text-gray-600 border-l border-white/10">—</td>;
+  }
+  const format = (gain: number) => `${gain >= 0 ? '+' : ''}${gain.toFixed(2)}%`;
+  return (
+    <td className="py-3 px-3 text-center text-xs font-mono whitespace-nowrap border-l border-white/10">
+      <span className="text-gray-300">{format(player.gainPercent)}</span>
+      <span className="text-gray-600"> / </span>
+      <span className={player.penaltyETH > 0n ? 'text-red-300' : 'text-gray-300'} title={player.penaltyETH > 0n ? `Penalty: -${formatEther(player.penaltyETH)} ETH` : undefined}>
+        {format(player.adjustedGainPercent)}
+      </span>
+    </td>
+  );
+}
+
+function GameView() {
   const params = useParams();
   const gameId = params?.gameId ? parseInt(params.gameId as string) : 0;
   const { address } = useAccount();
+  const { deployment, contract, chainId, contractAddress, abi, publicClient } = useDeployment();
+  const gracePeriod = useGracePeriod();
+  const now = useNow();
+  const { mode: scoringMode } = useScoringMode();
 
   const { data: gameData } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: contractABI,
+    address: contractAddress,
+    chainId,
+    abi,
     functionName: 'games',
     args: [BigInt(gameId)],
   });
 
-  const { data: gameStatus } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: contractABI,
-    functionName: 'getGameStatus',
-    args: [BigInt(gameId)],
-  });
-
   const { data: startRewardData } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: contractABI,
+    address: contractAddress,
+    chainId,
+    abi,
     functionName: 'getStartReward',
     args: [BigInt(gameId)],
   });
 
   const { data: canStartData } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: contractABI,
+    address: contractAddress,
+    chainId,
+    abi,
     functionName: 'canGameStart',
     args: [BigInt(gameId)],
   });
 
   // Get user's player status - MUST be called before any conditional returns
   const { data: userPlayerData, refetch: refetchPlayer } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: contractABI,
+    address: contractAddress,
+    chainId,
+    abi,
     functionName: 'getPlayer',
     args: [BigInt(gameId), address || ('0x0000000000000000000000000000000000000000' as Address)],
     query: { enabled: !!address && !!gameId && gameId > 0 },
@@ -83,43 +122,16 @@ export default function GamePage() {
 
   // Refetch game data after successful registration
   const { refetch: refetchGame } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: contractABI,
+    address: contractAddress,
+    chainId,
+    abi,
     functionName: 'games',
     args: [BigInt(gameId)],
   });
 
-  // games() returns a tuple: [gameId, startTime, endTime, currentRound, totalRounds, roundDuration,
-  //                            playerCount, prizePool, active, finalized, cancelled, entryFee,
-  //                            registrationDeadline, minPlayers, operationsFund, platformFee, totalGasReimbursed]
-  const gameArray = gameData as any[] | undefined;
-  
-  // Convert tuple to object for easier access - use useMemo to prevent recreation on every render
-  const game: GameData | undefined = useMemo(() => {
-    if (!gameArray) return undefined;
-    return {
-      gameId: gameArray[0] || 0n,
-      startTime: gameArray[1] || 0n,
-      endTime: gameArray[2] || 0n,
-      currentRound: gameArray[3] || 0n,
-      totalRounds: gameArray[4] || 0n,
-      roundDuration: gameArray[5] || 0n,
-      playerCount: gameArray[6] || 0n,
-      prizePool: gameArray[7] || 0n,
-      active: gameArray[8] || false,
-      finalized: gameArray[9] || false,
-      cancelled: gameArray[10] || false,
-      entryFee: gameArray[11] || 0n,
-      registrationDeadline: gameArray[12] || 0n,
-      minPlayers: gameArray[13] || 0n,
-      operationsFund: gameArray[14] || 0n,
-      platformFee: gameArray[15] || 0n,
-      totalGasReimbursed: gameArray[16] || 0n,
-      totalGasSpent: gameArray[17] || 0n,
-    };
-  }, [gameArray]);
+  // Decode once per fetch so the object identity is stable across renders
+  const game = useMemo(() => (gameData ? decodeGame(gameData, contract.abiVersion) : undefined), [gameData, contract.abiVersion]);
 
-  const status = gameStatus as string | undefined;
   const [reward, rewardTimeRemaining] = (startRewardData as [bigint, bigint] | undefined) || [0n, 0n];
   const [canStart, reason] = (canStartData as [boolean, string] | undefined) || [false, ''];
 
@@ -131,8 +143,9 @@ export default function GamePage() {
   // Get current round data to fetch active players count (only if game has started)
   // Hook must be called before any conditional returns
   const { data: currentRoundData } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: contractABI,
+    address: contractAddress,
+    chainId,
+    abi,
     functionName: 'rounds',
     args: [BigInt(gameId), BigInt(currentRoundNum)],
     query: { enabled: !!game && hasStarted && !isFinished && currentRoundNum > 0 },
@@ -140,8 +153,9 @@ export default function GamePage() {
 
   // Get all players to find the winner (only if game is finalized)
   const { data: gamePlayers } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: contractABI,
+    address: contractAddress,
+    chainId,
+    abi,
     functionName: 'getGamePlayers',
     args: [BigInt(gameId)],
     query: { enabled: !!game && game.finalized && !game.cancelled },
@@ -156,32 +170,27 @@ export default function GamePage() {
   const [prize3rd, setPrize3rd] = useState<bigint>(0n);
   const [losers, setLosers] = useState<Array<{ address: Address; gainPercent: number; eliminationRound: number }>>([]);
   const [finalizationTxHash, setFinalizationTxHash] = useState<string | null>(null);
-  const [eliminatedPlayers, setEliminatedPlayers] = useState<string[]>([]);
   const [registrationCountdown, setRegistrationCountdown] = useState<string>('');
   const [loadingWinnerData, setLoadingWinnerData] = useState<boolean>(false);
   const [winnerDataError, setWinnerDataError] = useState<string | null>(null);
   const [snapshots, setSnapshots] = useState<Map<string, Map<number, bigint>>>(new Map());
   const [roundEndSnapshots, setRoundEndSnapshots] = useState<Map<string, Map<number, bigint>>>(new Map());
   const [loadingSnapshots, setLoadingSnapshots] = useState<boolean>(false);
+  const [roundCutoffs, setRoundCutoffs] = useState<Map<number, number>>(new Map());
+  const [snapshotView, setSnapshotView] = useState<'table' | 'chart'>('table');
   const [eliminationData, setEliminationData] = useState<Map<string, { round: number; startETH: bigint; endETH: bigint; gainPercent: number }>>(new Map());
   const [players, setPlayers] = useState<PlayerData[]>([]);
   const [loadingPlayers, setLoadingPlayers] = useState<boolean>(false);
 
   // Extract active players and round timing from round data
-  // rounds() returns: [roundNumber, startTime, endTime, alivePlayers, cutoffRank, finalized]
-  const activePlayers = currentRoundData && Array.isArray(currentRoundData) 
-    ? Number((currentRoundData as any[])[3] || 0n)
-    : undefined;
+  const currentRoundInfo = useMemo(() => (currentRoundData ? decodeRound(currentRoundData, contract.abiVersion) : undefined), [currentRoundData, contract.abiVersion]);
+  const activePlayers = currentRoundInfo ? Number(currentRoundInfo.alivePlayers) : undefined;
   
   // Get the actual round end time from the round data (more accurate than calculating from game start)
-  const roundEndTimeFromData = currentRoundData && Array.isArray(currentRoundData)
-    ? Number((currentRoundData as any[])[2] || 0n) // endTime is at index 2
-    : null;
+  const roundEndTimeFromData = currentRoundInfo ? Number(currentRoundInfo.endTime) : null;
   
   // Check if current round is finalized
-  const roundFinalized = currentRoundData && Array.isArray(currentRoundData)
-    ? (currentRoundData as any[])[5] === true // finalized is at index 5
-    : false;
+  const roundFinalized = currentRoundInfo ? currentRoundInfo.finalized : false;
 
   // Debug: Log game data to see what we're getting
   useEffect(() => {
@@ -218,8 +227,8 @@ export default function GamePage() {
     ): Promise<number | null> => {
       try {
         const round1Start = await publicClient.readContract({
-          address: CONTRACT_ADDRESS,
-          abi: contractABI,
+          address: contractAddress,
+          abi,
           functionName: 'getRoundStartETH',
           args: [BigInt(gameId), 1n, playerAddress],
         }) as bigint;
@@ -236,8 +245,8 @@ export default function GamePage() {
           let finalRoundEnd = 0n;
           for (let round = totalRounds; round >= 1; round--) {
             const roundEnd = await publicClient.readContract({
-              address: CONTRACT_ADDRESS,
-              abi: contractABI,
+              address: contractAddress,
+              abi,
               functionName: 'getRoundEndETH',
               args: [BigInt(gameId), BigInt(round), playerAddress],
             }) as bigint;
@@ -252,8 +261,8 @@ export default function GamePage() {
           let eliminationRoundEnd = 0n;
           for (let round = totalRounds; round >= 1; round--) {
             const roundEnd = await publicClient.readContract({
-              address: CONTRACT_ADDRESS,
-              abi: contractABI,
+              address: contractAddress,
+              abi,
               functionName: 'getRoundEndETH',
               args: [BigInt(gameId), BigInt(round), playerAddress],
             }) as bigint;
@@ -306,35 +315,18 @@ export default function GamePage() {
 
         // Get finalize transaction: RoundFinalized for final round (game.currentRound) is the tx that emits PrizePaid.
         try {
-          const blockNumber = await publicClient.getBlockNumber();
-          const fetchRoundLogs = async (from: bigint) =>
-            publicClient.getContractEvents({
-              address: CONTRACT_ADDRESS,
-              abi: contractABI,
-              eventName: 'RoundFinalized',
-              args: { gameId: BigInt(gameId) },
-              fromBlock: from,
-              toBlock: blockNumber,
-            });
-          let roundLogs: Awaited<ReturnType<typeof fetchRoundLogs>>;
-          try {
-            roundLogs = await fetchRoundLogs(0n);
-          } catch {
-            roundLogs = blockNumber > 100_000n ? await fetchRoundLogs(blockNumber - 100_000n) : [];
-          }
-          type RoundFinalizedLog = { args: { roundNumber: bigint }; transactionHash: string; blockNumber: bigint };
-          const roundEvents = roundLogs as unknown as RoundFinalizedLog[];
-          const finalRoundEvent = roundEvents.find((e) => e.args.roundNumber === game.currentRound);
+          const { events: roundEvents } = await fetchGameEvents(contract.id, gameId, ['RoundFinalized']);
+          const finalRoundEvent = roundEvents.find((e) => BigInt(e.args.roundNumber as string) === game.currentRound);
           if (finalRoundEvent) {
             finalizeTxHash = finalRoundEvent.transactionHash;
             console.log('🎯 Finalize tx from RoundFinalized(round=%s):', String(game.currentRound), finalizeTxHash);
           } else if (roundEvents.length > 0) {
-            const sorted = [...roundEvents].sort((a, b) => (b.blockNumber > a.blockNumber ? 1 : -1));
-            finalizeTxHash = sorted[0].transactionHash;
+            // Indexed events come back in chain order, so the last one is the latest
+            finalizeTxHash = roundEvents[roundEvents.length - 1].transactionHash;
             console.log('🎯 Finalize tx from latest RoundFinalized:', finalizeTxHash);
           }
         } catch (logError) {
-          console.warn('Could not fetch RoundFinalized logs for finalize tx:', logError);
+          console.warn('Could not fetch RoundFinalized events for finalize tx:', logError);
         }
 
         // Optional env fallback: set e.g. NEXT_PUBLIC_FINALIZE_TX_GAME_1=0x... for the current contract's tx
@@ -365,12 +357,9 @@ export default function GamePage() {
         
         const totalRounds = Number(game.totalRounds);
         const pool = poolForDisplay;
-        const firstPlace = (pool * 60n) / 100n;
-        const secondPlace = (pool * 30n) / 100n;
-        const thirdPlace = (pool * 10n) / 100n;
 
         if (game.finalized) {
-          // Source of truth: PrizePaid events. Prefer finalization tx receipt (exact logs); else getContractEvents.
+          // Source of truth: PrizePaid events. Prefer finalization tx receipt (exact logs); else the event indexer.
           type PrizePaidArgs = { place: number | bigint; winner: Address; amount: bigint };
           type Placement = { place: 1 | 2 | 3; winner: Address; amount: bigint };
 
@@ -388,16 +377,16 @@ export default function GamePage() {
             const losersList: Array<{ address: Address; gainPercent: number; eliminationRound: number }> = [];
             for (const player of players) {
               if (top3Set.has(player.toLowerCase())) continue;
-              // Fetch eliminationRound from the players mapping (index 16)
+              // Fetch eliminationRound from the players mapping
               let elimRound = 0;
               try {
-                const playerStruct = await publicClient.readContract({
-                  address: CONTRACT_ADDRESS,
-                  abi: contractABI,
+                const playerStruct = decodePlayer(await publicClient.readContract({
+                  address: contractAddress,
+                  abi,
                   functionName: 'players',
                   args: [BigInt(gameId), player],
-                });
-                elimRound = Number((playerStruct as any[])[16] || 0n);
+                }), contract.abiVersion);
+                elimRound = Number(playerStruct.eliminationRound);
               } catch (e) {
                 console.warn(`Could not fetch eliminationRound for ${player}:`, e);
               }
@@ -420,7 +409,7 @@ export default function GamePage() {
             if (finalizeTxHash) {
               const receipt = await publicClient.getTransactionReceipt({ hash: finalizeTxHash as `0x${string}` });
               if (receipt?.logs?.length) {
-                const contractLogs = receipt.logs.filter((l) => l.address.toLowerCase() === CONTRACT_ADDRESS.toLowerCase());
+                const contractLogs = receipt.logs.filter((l) => l.address.toLowerCase() === contractAddress.toLowerCase());
                 const parsed = parseEventLogs({
                   abi: contractABI,
                   logs: contractLogs,
@@ -439,29 +428,15 @@ export default function GamePage() {
               }
             }
 
-            // 2) Fallback: getContractEvents for PrizePaid (can hit RPC block range limits)
+            // 2) Fallback: PrizePaid events from the indexer
             if (placementsFromEvents.length === 0) {
-              const blockNumber = await publicClient.getBlockNumber();
-              const fetchPrizeLogs = async (from: bigint) =>
-                publicClient.getContractEvents({
-                  address: CONTRACT_ADDRESS,
-                  abi: contractABI,
-                  eventName: 'PrizePaid',
-                  args: { gameId: BigInt(gameId) },
-                  fromBlock: from,
-                  toBlock: blockNumber,
-                });
-              let prizeLogs: Awaited<ReturnType<typeof fetchPrizeLogs>>;
-              try {
-                prizeLogs = await fetchPrizeLogs(0n);
-              } catch {
-                prizeLogs = blockNumber > 100_000n ? await fetchPrizeLogs(blockNumber - 100_000n) : [];
-              }
-              placementsFromEvents = prizeLogs
-                .map((log) => {
-                  const args = (log as unknown as { args: PrizePaidArgs }).args;
-                  return { place: Number(args.place) as 1 | 2 | 3, winner: args.winner, amount: args.amount };
-                })
+              const { events: prizeEvents } = await fetchGameEvents(contract.id, gameId, ['PrizePaid']);
+              placementsFromEvents = prizeEvents
+                .map((e) => ({
+                  place: Number(e.args.place) as 1 | 2 | 3,
+                  winner: e.args.winner as Address,
+                  amount: BigInt(e.args.amount as string),
+                }))
                 .sort((a, b) => a.place - b.place);
             }
 
@@ -472,53 +447,49 @@ export default function GamePage() {
         }
 
         // Fallback: infer placements from alive status + eliminationRound (matches contract logic)
-        // 1st = last alive player, 2nd = eliminated in final round, 3rd = eliminated in penultimate round
-        const finalRound = Number(game.currentRound);
-        const losersList: Array<{ address: Address; gainPercent: number; eliminationRound: number }> = [];
-        let firstPlayer: { address: Address; gainPercent: number | null } | null = null;
-        let secondPlayer: { address: Address; gainPercent: number | null } | null = null;
-        let thirdPlayer: { address: Address; gainPercent: number | null } | null = null;
-
+        const placementInputs: PlacementInput[] = [];
+        const gains = new Map<Address, number | null>();
         for (const player of players) {
           try {
-            // Use players mapping to get eliminationRound (index 16) and alive (index 11)
-            const playerStruct = await publicClient.readContract({
-              address: CONTRACT_ADDRESS,
-              abi: contractABI,
+            const playerStruct = decodePlayer(await publicClient.readContract({
+              address: contractAddress,
+              abi,
               functionName: 'players',
               args: [BigInt(gameId), player],
+            }), contract.abiVersion);
+            const gainPercent = await calculateGameplayGainPercent(player, playerStruct.alive, totalRounds);
+            gains.set(player, gainPercent);
+            placementInputs.push({
+              address: player,
+              alive: playerStruct.alive,
+              eliminationRound: Number(playerStruct.eliminationRound),
+              gainPercent: gainPercent ?? 0,
             });
-            const isAlive = (playerStruct as any[])[11] === true;
-            const elimRound = Number((playerStruct as any[])[16] || 0n);
-            const gainPercent = await calculateGameplayGainPercent(player, isAlive, totalRounds);
-
-            if (isAlive) {
-              // Last alive = 1st place
-              firstPlayer = { address: player, gainPercent };
-            } else if (elimRound === finalRound && !secondPlayer) {
-              // First player eliminated in final round = 2nd place (matches contract _findPlayerEliminatedInRound)
-              secondPlayer = { address: player, gainPercent };
-            } else if (elimRound === finalRound - 1 && !thirdPlayer && finalRound > 1) {
-              // First player eliminated in penultimate round = 3rd place
-              thirdPlayer = { address: player, gainPercent };
-            } else {
-              losersList.push({ address: player, gainPercent: gainPercent !== null ? gainPercent : 0, eliminationRound: elimRound });
-            }
           } catch (error) {
             console.error(`❌ Error checking player ${player}:`, error);
-            losersList.push({ address: player, gainPercent: 0, eliminationRound: 0 });
+            placementInputs.push({ address: player, alive: false, eliminationRound: 0 });
           }
         }
 
-        setPrize1st(firstPlace);
-        setPrize2nd(secondPlayer ? secondPlace : 0n);
-        setPrize3rd(thirdPlayer ? thirdPlace : 0n);
+        const placements = inferPlacements(placementInputs, Number(game.currentRound));
+        const prizes = placementPrizes(placements, pool);
+        setPrize1st(prizes.first);
+        setPrize2nd(prizes.second);
+        setPrize3rd(prizes.third);
+
         const winnersList: WinnerData[] = [];
-        if (firstPlayer) winnersList.push({ address: firstPlayer.address, place: 1, prize: firstPlace + (secondPlayer ? 0n : secondPlace) + (thirdPlayer ? 0n : thirdPlace), gainPercent: firstPlayer.gainPercent });
-        if (secondPlayer) winnersList.push({ address: secondPlayer.address, place: 2, prize: secondPlace, gainPercent: secondPlayer.gainPercent });
-        if (thirdPlayer) winnersList.push({ address: thirdPlayer.address, place: 3, prize: thirdPlace, gainPercent: thirdPlayer.gainPercent });
-        // Sort losers by elimination round descending (later round = better placement), then gain% as tiebreaker
-        losersList.sort((a, b) => b.eliminationRound - a.eliminationRound || b.gainPercent - a.gainPercent);
+        const placed = [placements.first, placements.second, placements.third];
+        const placePrizes = [prizes.first, prizes.second, prizes.third];
+        for (const [index, winner] of placed.entries()) {
+          if (!winner) continue;
+          winnersList.push({ address: winner, place: (index + 1) as 1 | 2 | 3, prize: placePrizes[index], gainPercent: gains.get(winner) ?? null });
+        }
+        // Already in finishing order: survivors, then later eliminations, gain% as tiebreaker
+        const losersList = placements.others.map((player) => ({
+          address: player.address,
+          gainPercent: player.gainPercent ?? 0,
+          eliminationRound: player.eliminationRound,
+        }));
         console.log(`✅ Setting Top 3 (computed): ${winnersList.length}, losers: ${losersList.length}`);
         setWinners(winnersList);
         setLosers(losersList);
@@ -534,7 +505,7 @@ export default function GamePage() {
     };
 
     findWinnerAndLosers();
-  }, [game, gamePlayers, gameId]);
+  }, [game, gamePlayers, gameId, contract, contractAddress, abi, publicClient]);
 
   // Debug: Log when finalizationTxHash changes
   useEffect(() => {
@@ -595,9 +566,9 @@ export default function GamePage() {
     const loadPlayers = async () => {
       setLoadingPlayers(true);
       try {
-        const fetchedPlayers = await fetchGamePlayers(BigInt(gameId));
+        const { players: fetchedPlayers, rpcCalls } = await fetchGamePlayers(contract, BigInt(gameId));
         setPlayers(fetchedPlayers);
-        console.log(`✅ Loaded ${fetchedPlayers.length} players for game ${gameId}`);
+        console.log(`✅ Loaded ${fetchedPlayers.length} players for game ${gameId} (${rpcCalls} RPC calls)`);
       } catch (error) {
         console.error('Error fetching players:', error);
         setPlayers([]);
@@ -612,117 +583,32 @@ export default function GamePage() {
     } else {
       setPlayers([]);
     }
-  }, [game, gameId, game?.playerCount]);
+  }, [game, gameId, game?.playerCount, contract]);
+
+  // Re-rank locally when the scoring mode changes; the loaded balances cover both modes
+  const rankedPlayers = useMemo(() => rankPlayers(players, scoringMode), [players, scoringMode]);
+  const playersByWallet = useMemo(
+    () => new Map(players.map((player) => [player.wallet.toLowerCase(), player])),
+    [players]
+  );
 
   // Compute values needed for hooks (before conditional return)
   // Use safe defaults when game is undefined
-  const now = Math.floor(Date.now() / 1000);
   const roundEndTime = roundEndTimeFromData !== null 
     ? roundEndTimeFromData 
     : (game ? Number(game.startTime) + Number(game.roundDuration) : 0);
   const timeRemaining = roundEndTime > now ? roundEndTime - now : 0;
-  const roundShouldHaveEnded = game ? (timeRemaining <= 0 && currentRoundNum > 0 && !isFinished && !roundFinalized) : false;
-  const cutoffRank = currentRoundData && Array.isArray(currentRoundData)
-    ? Number((currentRoundData as any[])[4] || 1n)
-    : 1;
+  const status = game ? deriveGameStatus(game, { now, gracePeriod, round: currentRoundInfo }) : undefined;
+  const roundShouldHaveEnded = status !== undefined && canPerform(status, 'finalizeRound');
   
-  // Get all players to calculate rankings (only if round should have ended)
-  // This hook MUST be before conditional return
-  const { data: allPlayersForRanking } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: contractABI,
-    functionName: 'getGamePlayers',
-    args: [BigInt(gameId)],
-    query: { enabled: !!game && hasStarted && !isFinished && roundShouldHaveEnded && currentRoundNum > 0 },
-  });
-
-  // Calculate player rankings and determine eliminated players
-  // This useEffect MUST be before conditional return
-  useEffect(() => {
-    // Re-check conditions inside useEffect to ensure game exists
-    if (!game || !roundShouldHaveEnded || !allPlayersForRanking) {
-      setEliminatedPlayers([]);
-      return;
-    }
-    
-    const calculateEliminatedPlayers = async () => {
-      try {
-        const players = allPlayersForRanking as Address[];
-        const playerScores: Array<{ address: Address; score: number }> = [];
-        
-        for (const player of players) {
-          try {
-            const playerData = await publicClient.readContract({
-              address: CONTRACT_ADDRESS,
-              abi: contractABI,
-              functionName: 'getPlayer',
-              args: [BigInt(gameId), player],
-            });
-            
-            // getPlayer returns [squareIndex, startValueUSDC, penaltyETH, penaltyUSDC, penaltyAERO, penaltyCAKE, alive, eliminationReason] — alive at index 6
-            if ((playerData as any)[6] === true) {
-              // Use raw ETH balance (no getAdjustedBalances after Phase 1)
-              const currentETH = await publicClient.getBalance({ address: player });
-              
-              // Get round-start ETH balance
-              let roundStartETH = await publicClient.readContract({
-                address: CONTRACT_ADDRESS,
-                abi: contractABI,
-                functionName: 'getRoundStartETH',
-                args: [BigInt(gameId), BigInt(currentRoundNum), player],
-              }) as bigint;
-              
-              // Fallback: If roundStartETH is 0, use game-start ETH
-              if (roundStartETH === 0n) {
-                const playerStruct = await publicClient.readContract({
-                  address: CONTRACT_ADDRESS,
-                  abi: contractABI,
-                  functionName: 'players',
-                  args: [BigInt(gameId), player],
-                });
-                roundStartETH = (playerStruct as any)[2]; // startETH is at index 2
-              }
-              
-              // Calculate percentage gain/loss
-              let percentageGain = 0;
-              if (roundStartETH > 0n) {
-                const gain = currentETH - roundStartETH;
-                percentageGain = Number((gain * 10000n) / roundStartETH) / 100;
-              } else {
-                if (currentETH > 0n) {
-                  percentageGain = 999999;
-                } else {
-                  percentageGain = -100;
-                }
-              }
-              
-              playerScores.push({
-                address: player,
-                score: percentageGain,
-              });
-            }
-          } catch (error) {
-            console.error(`Error getting player data for ${player}:`, error);
-          }
-        }
-        
-        // Sort by score (highest percentage gain first)
-        playerScores.sort((a, b) => b.score - a.score);
-        
-        // Get players below cutoff rank (these should be eliminated)
-        const eliminated = playerScores
-          .slice(cutoffRank) // Take all players after the cutoff rank
-          .map(p => p.address);
-        
-        setEliminatedPlayers(eliminated);
-      } catch (error) {
-        console.error('Error calculating eliminated players:', error);
-        setEliminatedPlayers([]);
-      }
-    };
-    
-    calculateEliminatedPlayers();
-  }, [roundShouldHaveEnded, allPlayersForRanking, game, gameId, currentRoundNum, cutoffRank, timeRemaining, isFinished, roundFinalized]);
+  // Projected standings, shared with the sidebar and the finalize preview. While the
+  // round runs they follow new blocks so players can see where the cut falls.
+  const { standings: roundStandings } = useRoundStandings(
+    gameId,
+    currentRoundNum,
+    !!game && hasStarted && !isFinished && !roundFinalized,
+    !roundShouldHaveEnded
+  );
 
   // Fetch snapshots for all rounds (when game has started or is finalized, so Game Progression has data)
   useEffect(() => {
@@ -742,8 +628,8 @@ export default function GamePage() {
         } else {
           try {
             players = await publicClient.readContract({
-              address: CONTRACT_ADDRESS,
-              abi: contractABI,
+              address: contractAddress,
+              abi,
               functionName: 'getGamePlayers',
               args: [BigInt(gameId)],
             }) as Address[];
@@ -759,17 +645,18 @@ export default function GamePage() {
 
         // First, check which rounds are finalized (do this once for all players)
         const finalizedRounds = new Set<number>();
+        const cutoffMap = new Map<number, number>();
         console.log(`🔍 Checking finalized rounds (1 to ${maxRound})...`);
         for (let round = 1; round <= maxRound; round++) {
           try {
-            const roundData = await publicClient.readContract({
-              address: CONTRACT_ADDRESS,
-              abi: contractABI,
+            const roundData = decodeRound(await publicClient.readContract({
+              address: contractAddress,
+              abi,
               functionName: 'rounds',
               args: [BigInt(gameId), BigInt(round)],
-            }) as any[];
-            const isFinalized = roundData[5] === true; // finalized is at index 5
-            if (isFinalized) {
+            }), contract.abiVersion);
+            cutoffMap.set(round, Number(roundData.cutoffRank));
+            if (roundData.finalized) {
               finalizedRounds.add(round);
               console.log(`  ✓ Round ${round} is finalized`);
             } else {
@@ -787,30 +674,15 @@ export default function GamePage() {
           const playerRoundEnds = new Map<number, bigint>();
           
           // Get player data to check alive status
-          // Use getPlayer() instead of players() to avoid bigint overflow issues with registrationTime
-          let playerData: any = null;
           let isCurrentlyAlive = false;
           try {
-            playerData = await publicClient.readContract({
-              address: CONTRACT_ADDRESS,
-              abi: contractABI,
+            const playerData = decodePlayerSummary(await publicClient.readContract({
+              address: contractAddress,
+              abi,
               functionName: 'getPlayer',
               args: [BigInt(gameId), player],
-            });
-            
-            // getPlayer returns: [squareIndex, startValueUSDC, penaltyETH, penaltyUSDC, penaltyAERO, penaltyCAKE, alive, eliminationReason]
-            const playerArray = Array.isArray(playerData) ? playerData : [
-              playerData.squareIndex !== undefined ? playerData.squareIndex : playerData[0],
-              playerData.startValueUSDC !== undefined ? playerData.startValueUSDC : playerData[1],
-              playerData.penaltyETH !== undefined ? playerData.penaltyETH : playerData[2],
-              playerData.penaltyUSDC !== undefined ? playerData.penaltyUSDC : playerData[3],
-              playerData.penaltyAERO !== undefined ? playerData.penaltyAERO : playerData[4],
-              playerData.penaltyCAKE !== undefined ? playerData.penaltyCAKE : playerData[5],
-              playerData.alive !== undefined ? playerData.alive : playerData[6],
-              playerData.eliminationReason !== undefined ? playerData.eliminationReason : playerData[7],
-            ];
-
-            isCurrentlyAlive = playerArray[6] === true;
+            }), contract.abiVersion);
+            isCurrentlyAlive = playerData.alive;
           } catch (error) {
             console.warn(`Failed to fetch player data for ${player}:`, error);
             continue;
@@ -821,8 +693,8 @@ export default function GamePage() {
           for (let round = 1; round <= maxRound; round++) {
             try {
               const endETH = await publicClient.readContract({
-                address: CONTRACT_ADDRESS,
-                abi: contractABI,
+                address: contractAddress,
+                abi,
                 functionName: 'getRoundEndETH',
                 args: [BigInt(gameId), BigInt(round), player],
               }) as bigint;
@@ -844,8 +716,8 @@ export default function GamePage() {
             try {
               // Fetch round start ETH
               const snapshotETH = await publicClient.readContract({
-                address: CONTRACT_ADDRESS,
-                abi: contractABI,
+                address: contractAddress,
+                abi,
                 functionName: 'getRoundStartETH',
                 args: [BigInt(gameId), BigInt(round), player],
               }) as bigint;
@@ -909,6 +781,7 @@ export default function GamePage() {
         setSnapshots(snapshotMap);
         setRoundEndSnapshots(roundEndMap);
         setEliminationData(elimDataMap);
+        setRoundCutoffs(cutoffMap);
       } catch (error) {
         console.error('❌ Error fetching snapshots:', error);
       } finally {
@@ -917,7 +790,12 @@ export default function GamePage() {
     };
 
     fetchSnapshots();
-  }, [game, hasStarted, isFinished, game?.finalized, gamePlayers, gameId, game?.currentRound, game?.totalRounds]);
+  }, [game, hasStarted, isFinished, game?.finalized, gamePlayers, gameId, game?.currentRound, game?.totalRounds, contract.abiVersion, contractAddress, abi, publicClient]);
+
+  const eliminatedRounds = useMemo(
+    () => new Map(Array.from(eliminationData, ([player, data]) => [player, data.round])),
+    [eliminationData]
+  );
 
   // Conditional return - MUST be after all hooks
   if (!game) {
@@ -929,28 +807,19 @@ export default function GamePage() {
     );
   }
 
-  // getPlayer returns: [squareIndex, startValueUSDC, penaltyETH, penaltyUSDC, penaltyAERO, penaltyCAKE, alive, eliminationReason]
-  // Index 0 = squareIndex, Index 6 = alive
+  const userPlayer = userPlayerData ? decodePlayerSummary(userPlayerData, contract.abiVersion) : undefined;
   const userStatus = !address
     ? 'not_registered'
-    : !userPlayerData
+    : !userPlayer
     ? 'not_registered'
-    : (userPlayerData as any)[0] === 0 && (userPlayerData as any)[6] === false // squareIndex = 0 and alive = false = not registered
+    : userPlayer.squareIndex === 0 && !userPlayer.alive // squareIndex = 0 and alive = false = not registered
     ? 'not_registered'
-    : (userPlayerData as any)[6] === false // alive = false but squareIndex > 0 = eliminated
+    : !userPlayer.alive // alive = false but squareIndex > 0 = eliminated
     ? 'eliminated'
     : 'registered';
 
   // Players are now fetched via useEffect above using fetchGamePlayers
 
-  const statusLabels: Record<string, string> = {
-    'REGISTRATION_OPEN': 'Registration Open',
-    'READY_TO_START': 'Ready to Start',
-    'LIVE': 'Live',
-    'FINALIZED': 'Finished',
-    'CANCELLED': 'Cancelled',
-  };
-
   // When game is finalized, only show rounds that actually happened (1..currentRound). No Round N+1 row.
   const maxRoundToShow = game
     ? (game.finalized ? Math.max(1, Number(game.currentRound)) : Math.min(10, Math.max(1, Number(game.currentRound)), Number(game.totalRounds || 10)))
@@ -978,22 +847,31 @@ export default function GamePage() {
               ←
             </Link>
             <h1 className="text-lg font-semibold text-white tracking-wide [font-family:var(--font-orbitron)] mr-6">Game #{gameId}</h1>
+            {!contract.current && (
+              <span className="game-status-badge !bg-white/10 !border-white/20 text-white/70" title={contract.address}>
+                {contract.label} (archived)
+              </span>
+            )}
             <span className={`game-status-badge ${
               status === 'LIVE' ? '!bg-[var(--neon-blue)]/30 !border-[var(--neon-blue)]/50 text-[var(--neon-cyan)]' :
-              status === 'REGISTRATION_OPEN' ? '!bg-[var(--accent-yellow)]/20 !border-[var(--accent-yellow)]/50 text-[var(--accent-yellow)]' :
-              status === 'READY_TO_START' ? '!bg-[var(--accent-green)]/20 !border-[var(--accent-green)]/50 text-[var(--accent-green)]' :
+              status === 'REGISTRATION_OPEN' || status === 'UNDERFILLED' ? '!bg-[var(--accent-yellow)]/20 !border-[var(--accent-yellow)]/50 text-[var(--accent-yellow)]' :
+              status === 'READY_TO_START' || status === 'AWAITING_FINALIZATION' ? '!bg-[var(--accent-green)]/20 !border-[var(--accent-green)]/50 text-[var(--accent-green)]' :
               status === 'FINALIZED' ? '!bg-white/10 !border-white/20 text-white/80' :
               '!bg-[var(--neon-pink)]/20 !border-[var(--neon-pink)]/50 text-[var(--neon-pink)]'
             }`}>
-              {statusLabels[status || ''] || status}
+              {status && GAME_STATUS_LABELS[status]}
             </span>
           </div>
-          {registrationCountdown && !hasStarted && !isFinished && (
-            <div className="flex items-center gap-2">
-              <span className="text-gray-400 text-sm">Registration Closes:</span>
-              <span className="text-[var(--neon-cyan)] font-semibold">{registrationCountdown}</span>
-            </div>
-          )}
+          <div className="flex items-center gap-4">
+            {registrationCountdown && !hasStarted && !isFinished && (
+              <div className="flex items-center gap-2">
+                <span className="text-gray-400 text-sm">Registration Closes:</span>
+                <span className="text-[var(--neon-cyan)] font-semibold">{registrationCountdown}</span>
+              </div>
+            )}
+            {hasStarted && <ScoringModeToggle />}
+            <ChainSwitcher />
+          </div>
         </div>
       </header>
 
@@ -1001,7 +879,7 @@ export default function GamePage() {
         {!hasStarted && !isFinished ? (
           <div className="flex items-start">
             <div className="flex-1 min-w-0 mr-10">
-              <GameBoard gameId={gameId} players={players} />
+              <GameBoard gameId={gameId} players={rankedPlayers} standings={roundStandings} />
             </div>
             <div className="shrink-0 ml-10">
               <Sidebar
@@ -1018,7 +896,7 @@ export default function GamePage() {
               canStart={canStart}
               startReward={reward}
               rewardTimeRemaining={Number(rewardTimeRemaining)}
-              gameStatus={status as 'REGISTRATION_OPEN' | 'READY_TO_START' | 'LIVE' | 'FINALIZED' | 'CANCELLED' | 'UNDERFILLED'}
+              gameStatus={status!}
               registrationDeadline={Number(game.registrationDeadline)}
               minPlayers={Number(game.minPlayers)}
               onRegistrationSuccess={() => {
@@ -1032,7 +910,7 @@ export default function GamePage() {
           <>
             <div className="flex items-start">
               <div className="flex-1 min-w-0 mr-10">
-                <GameBoard gameId={gameId} players={players} />
+                <GameBoard gameId={gameId} players={rankedPlayers} standings={roundStandings} />
               </div>
               <div className="shrink-0 ml-10">
                 <Sidebar
@@ -1049,7 +927,7 @@ export default function GamePage() {
                 canStart={false}
                 startReward={0n}
                 rewardTimeRemaining={0}
-                roundShouldHaveEnded={roundShouldHaveEnded}
+                gameStatus={status!}
                 onRegistrationSuccess={() => {
                   refetchPlayer();
                   refetchGame();
@@ -1069,8 +947,29 @@ export default function GamePage() {
                         ({snapshots.size} players, {roundEndSnapshots.size} with end snapshots)
                       </span>
                     )}
+                    <span className="ml-auto flex rounded-lg border border-white/10 bg-black/40 p-0.5 text-xs font-normal">
+                      {(['table', 'chart'] as const).map((view) => (
+                        <button
+                          key={view}
+                          type="button"
+                          onClick={() => setSnapshotView(view)}
+                          aria-pressed={snapshotView === view}
+                          className={`px-3 py-1 rounded-md capitalize ${snapshotView === view ? 'bg-[var(--neon-blue)]/30 text-white' : 'text-gray-400 hover:text-white'}`}
+                        >
+                          {view}
+                        </button>
+                      ))}
+                    </span>
                   </h3>
-                  {loadingSnapshots ? (
+                  {snapshotView === 'chart' && !loadingSnapshots ? (
+                    <PerformanceChart
+                      snapshots={snapshots}
+                      roundEndSnapshots={roundEndSnapshots}
+                      eliminatedRounds={eliminatedRounds}
+                      cutoffRanks={roundCutoffs}
+                      maxRound={maxRoundToShow}
+                    />
+                  ) : loadingSnapshots ? (
                     <div className="text-gray-400 text-sm">Loading snapshots...</div>
                   ) : snapshots.size === 0 ? (
                     <div className="text-gray-400 text-sm">
@@ -1104,6 +1003,12 @@ export default function GamePage() {
                                 </div>
                               </th>
                             ))}
+                            <th className="text-center py-3 px-2 text-xs font-semibold text-gray-400 border-l border-white/10">
+                              <div className="flex flex-col gap-1">
+                                <span>Score</span>
+                                <span className="text-[10px] font-normal text-gray-500">Raw / after penalties</span>
+                              </div>
+                            </th>
                           </tr>
                         </thead>
                         <tbody>
@@ -1125,7 +1030,7 @@ export default function GamePage() {
                                   <td className="py-3 px-4 text-sm font-mono text-gray-300 sticky left-0 z-10 bg-black/40">
                                     <div className="flex items-center gap-2">
                                       <span className="truncate max-w-[200px]">
-                                        {playerAddress.slice(0, 6)}...{playerAddress.slice(-4)}
+                                        <PlayerLink address={playerAddress} />
                                       </span>
                                       {wasEliminated && (
                                         <span className="text-xs text-red-400 font-medium whitespace-nowrap">
@@ -1196,6 +1101,7 @@ export default function GamePage() {
                                       </td>
                                     ];
                                   })}
+                                  <ScoreCell player={playersByWallet.get(playerAddress.toLowerCase())} />
                                 </tr>
                               );
                             })
@@ -1208,7 +1114,7 @@ export default function GamePage() {
                                 >
                                 <td className="py-3 px-4 text-sm font-mono text-gray-300 sticky left-0 z-10 bg-black/40">
                                   <span className="truncate max-w-[200px]">
-                                    {playerAddress.slice(0, 6)}...{playerAddress.slice(-4)}
+                                    <PlayerLink address={playerAddress} />
                                   </span>
                                 </td>
                                 {Array.from({ length: maxRoundToShow }, (_, i) => i + 1).flatMap((roundNum) => [
@@ -1225,6 +1131,7 @@ export default function GamePage() {
                                     <span>—</span>
                                   </td>
                                 ])}
+                                <ScoreCell player={playersByWallet.get(playerAddress.toLowerCase())} />
                               </tr>
                             )) : null
                           )}
@@ -1297,7 +1204,9 @@ export default function GamePage() {
                           {winners[0] && (
                             <tr className="border-b border-gray-800/80 hover:bg-white/5">
                               <td className="py-3 pr-4 text-amber-400/90 font-medium">1st</td>
-                              <td className="py-3 pr-4 font-mono text-sm text-gray-300 truncate max-w-[200px]" title={winners[0].address}>{winners[0].address}</td>
+                              <td className="py-3 pr-4 font-mono text-sm text-gray-300 truncate max-w-[200px]">
+                                <PlayerLink address={winners[0].address} full />
+                              </td>
                               <td className="py-3 pr-4 text-sm text-emerald-400 text-right">Survivor</td>
                               <td className="py-3 text-sm text-[#fbbf24] tabular-nums text-right">{formatEther(prize1st || winners[0].prize)} ETH</td>
                               <td className={`py-3 pl-4 font-semibold text-right ${(winners[0].gainPercent ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
@@ -1308,7 +1217,9 @@ export default function GamePage() {
                           {winners[1] && (
                             <tr className="border-b border-gray-800/80 hover:bg-white/5">
                               <td className="py-3 pr-4 text-white/80 font-medium">2nd</td>
-                              <td className="py-3 pr-4 font-mono text-sm text-gray-300 truncate max-w-[200px]" title={winners[1].address}>{winners[1].address}</td>
+                              <td className="py-3 pr-4 font-mono text-sm text-gray-300 truncate max-w-[200px]">
+                                <PlayerLink address={winners[1].address} full />
+                              </td>
                               <td className="py-3 pr-4 text-sm text-red-400/80 text-right">Round {Number(game.currentRound)}</td>
                               <td className="py-3 text-sm text-right">
                                 {(prize2nd || winners[1].prize) > 0n ? <span className="text-[#10b981] tabular-nums">{formatEther(prize2nd || winners[1].prize)} ETH</span> : '—'}
@@ -1321,7 +1232,9 @@ export default function GamePage() {
                           {winners[2] && (
                             <tr className="border-b border-gray-800/80 hover:bg-white/5">
                               <td className="py-3 pr-4 text-white/80 font-medium">3rd</td>
-                              <td className="py-3 pr-4 font-mono text-sm text-gray-300 truncate max-w-[200px]" title={winners[2].address}>{winners[2].address}</td>
+                              <td className="py-3 pr-4 font-mono text-sm text-gray-300 truncate max-w-[200px]">
+                                <PlayerLink address={winners[2].address} full />
+                              </td>
                               <td className="py-3 pr-4 text-sm text-red-400/80 text-right">Round {Math.max(1, Number(game.currentRound) - 1)}</td>
                               <td className="py-3 text-sm text-right">
                                 {(prize3rd || winners[2].prize) > 0n ? <span className="text-[#10b981] tabular-nums">{formatEther(prize3rd || winners[2].prize)} ETH</span> : '—'}
@@ -1337,7 +1250,9 @@ export default function GamePage() {
                             return (
                               <tr key={loser.address} className="border-b border-gray-800/80 hover:bg-white/5">
                                 <td className="py-3 pr-4 text-white/80 font-medium">{placeLabel}</td>
-                                <td className="py-3 pr-4 font-mono text-sm text-gray-300 truncate max-w-[200px]" title={loser.address}>{loser.address}</td>
+                                <td className="py-3 pr-4 font-mono text-sm text-gray-300 truncate max-w-[200px]">
+                                  <PlayerLink address={loser.address} full />
+                                </td>
                                 <td className="py-3 pr-4 text-sm text-red-400/80 text-right">
                                   {loser.eliminationRound > 0 ? `Round ${loser.eliminationRound}` : '—'}
                                 </td>
@@ -1352,10 +1267,10 @@ export default function GamePage() {
                       </table>
                     </div>
                     <div className="mt-6 pt-6 border-t border-white/10 px-2 py-4">
-                      {finalizationTxHash ? (
+                      {!deployment.explorerUrl ? null : finalizationTxHash ? (
                         <>
                           <a
-                            href={`https://sepolia-explorer.base.org/tx/${finalizationTxHash}`}
+                            href={explorerTxUrl(deployment, finalizationTxHash)!}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-sm text-[var(--neon-blue)] hover:underline"
@@ -1366,7 +1281,7 @@ export default function GamePage() {
                         </>
                       ) : (
                         <a
-                          href={`https://sepolia-explorer.base.org/address/${CONTRACT_ADDRESS}#events`}
+                          href={`${explorerAddressUrl(deployment, contractAddress)}#events`}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-sm text-[var(--neon-blue)] hover:underline"
@@ -1378,6 +1293,16 @@ export default function GamePage() {
                   </div>
                 )}
 
+                {game.finalized && (
+                  <div className="arena-panel mt-6 w-full max-w-6xl mx-auto rounded-lg p-6">
+                    <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                      <span>⏪</span>
+                      <span>Replay</span>
+                    </h3>
+                    <GameReplay gameId={gameId} />
+                  </div>
+                )}
+
                 {/* Round Snapshots (Start / End ETH per round) - at bottom of finished game data */}
                 {!game.cancelled && (
                   <div className="arena-panel mt-6 w-full max-w-6xl mx-auto rounded-lg p-6 mb-6">
@@ -1389,8 +1314,29 @@ export default function GamePage() {
                           ({snapshots.size} players, {roundEndSnapshots.size} with end snapshots)
                         </span>
                       )}
+                      <span className="ml-auto flex rounded-lg border border-white/10 bg-black/40 p-0.5 text-xs font-normal">
+                        {(['table', 'chart'] as const).map((view) => (
+                          <button
+                            key={view}
+                            type="button"
+                            onClick={() => setSnapshotView(view)}
+                            aria-pressed={snapshotView === view}
+                            className={`px-3 py-1 rounded-md capitalize ${snapshotView === view ? 'bg-[var(--neon-blue)]/30 text-white' : 'text-gray-400 hover:text-white'}`}
+                          >
+                            {view}
+                          </button>
+                        ))}
+                      </span>
                     </h3>
-                    {loadingSnapshots ? (
+                    {snapshotView === 'chart' && !loadingSnapshots ? (
+                      <PerformanceChart
+                        snapshots={snapshots}
+                        roundEndSnapshots={roundEndSnapshots}
+                        eliminatedRounds={eliminatedRounds}
+                        cutoffRanks={roundCutoffs}
+                        maxRound={maxRoundToShow}
+                      />
+                    ) : loadingSnapshots ? (
                       <div className="text-gray-400 text-sm">Loading snapshots...</div>
                     ) : snapshots.size === 0 && roundEndSnapshots.size === 0 ? (
                       <div className="text-gray-400 text-sm">No snapshot data available for this game.</div>
@@ -1429,7 +1375,7 @@ export default function GamePage() {
                                   >
                                     <td className="py-3 px-4 text-sm font-mono text-gray-300 sticky left-0 z-10 bg-black/40">
                                       <div className="flex items-center gap-2">
-                                        <span className="truncate max-w-[200px]">{playerAddress.slice(0, 6)}...{playerAddress.slice(-4)}</span>
+                                        <span className="truncate max-w-[200px]"><PlayerLink address={playerAddress} /></span>
                                         {placeLabel && <span className={`text-xs font-semibold whitespace-nowrap ${winnerEntry!.place === 1 ? 'text-[#fbbf24]' : winnerEntry!.place === 2 ? 'text-gray-400' : 'text-amber-600'}`}>{placeLabel}</span>}
                                         {wasEliminated && !winnerEntry && <span className="text-xs text-red-400 font-medium whitespace-nowrap">(Eliminated)</span>}
                                       </div>
@@ -1467,7 +1413,7 @@ export default function GamePage() {
                             ) : (
                               gamePlayers ? Array.from(gamePlayers as Address[]).map((playerAddress): React.ReactElement => (
                                 <tr key={playerAddress} className="border-b border-white/5">
-                                  <td className="py-3 px-4 text-sm font-mono text-gray-300 sticky left-0 z-10 bg-black/40"><span className="truncate max-w-[200px]">{playerAddress.slice(0, 6)}...{playerAddress.slice(-4)}</span></td>
+                                  <td className="py-3 px-4 text-sm font-mono text-gray-300 sticky left-0 z-10 bg-black/40"><span className="truncate max-w-[200px]"><PlayerLink address={playerAddress} /></span></td>
                                   {Array.from({ length: maxRoundToShow }, (_, i) => i + 1).flatMap((roundNum) => [
                                     <td key={`${playerAddress}-${roundNum}-start`} className="py-3 px-3 text-center text-xs text-gray-500 whitespace-nowrap min-w-[120px]"><span>—</span></td>,
                                     <td key={`${playerAddress}-${roundNum}-end`} className="py-3 px-3 text-center text-xs text-gray-500 border-l border-white/10 whitespace-nowrap min-w-[120px]"><span>—</span></td>,
@@ -1501,6 +1447,14 @@ export default function GamePage() {
             )}
           </div>
         )}
+
+        <div className="arena-panel mt-6 w-full max-w-6xl mx-auto rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <span>📜</span>
+            <span>Activity</span>
+          </h3>
+          <GameActivity gameId={gameId} live={hasStarted && !isFinished} />
+        </div>
       </main>
       </div>
     </div>
@@ -0,0 +1,16 @@
+import { notFound, redirect } from 'next/navigation';
+import { getDeployment } from '@/lib/deployments';
+
+/**
+ * Links from before game URLs carried a deployment (/game/12) point at the
+ * default chain's current contract.
+ */
+export default async function LegacyGameRedirect({
+  params,
+}: {
+  params: Promise<{ deployment: string }>;
+}) {
+  const { deployment } = await params;
+  if (!/^\d+$/.test(deployment)) notFound();
+  redirect(`/game/${getDeployment().contract.id}/${deployment}`);
+}
@@ -0,0 +1,33 @@
+import Link from 'next/link';
+import Leaderboard from '@/components/Leaderboard';
+import ConnectWalletClient from '@/components/ConnectWalletClient';
+import ChainSwitcher from '@/components/ChainSwitcher';
+
+export default function LeaderboardPage() {
+  return (
+    <div className="min-h-screen relative bg-[var(--arena-bg)]">
+      <div className="arena-gradient-overlay" aria-hidden />
+
+      <div className="relative" style={{ zIndex: 10 }}>
+        <header className="border-b border-white/5 bg-[var(--arena-bg)]/50 backdrop-blur-xl px-4 sm:px-6 py-4 sticky top-0 z-40">
+          <div className="max-w-7xl mx-auto flex items-center justify-between">
+            <div className="flex items-center gap-5">
+              <Link href="/" className="text-gray-400 hover:text-white transition-colors mr-2" title="Back to games">
+                ←
+              </Link>
+              <h1 className="text-lg font-semibold text-white tracking-wide [font-family:var(--font-orbitron)]">Leaderboard</h1>
+            </div>
+            <div className="flex items-center gap-3">
+              <ChainSwitcher />
+              <ConnectWalletClient />
+            </div>
+          </div>
+        </header>
+
+        <main className="max-w-5xl mx-auto px-6 py-8">
+          <Leaderboard />
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import GameLobby from '@/components/GameLobby';
 import ConnectWalletClient from '@/components/ConnectWalletClient';
+import ChainSwitcher from '@/components/ChainSwitcher';
 import Link from 'next/link';
+import { Suspense } from 'react';
 
 export default function Home() {
   return (
@@ -33,7 +35,16 @@ export default function Home() {
               Wallet Royale
             </h1>
           </Link>
-          <ConnectWalletClient />
+          <div className="flex items-center gap-3">
+            <Link href="/my-games" className="text-sm text-[var(--text-muted)] hover:text-white transition-colors">
+              My Games
+            </Link>
+            <Link href="/leaderboard" className="text-sm text-[var(--text-muted)] hover:text-white transition-colors">
+              Leaderboard
+            </Link>
+            <ChainSwitcher />
+            <ConnectWalletClient />
+          </div>
         </div>
       </header>
 
@@ -88,7 +99,10 @@ export default function Home() {
       </section>
 
       <main className="relative max-w-7xl mx-auto px-6 sm:px-8 pb-16 -mt-2">
-        <GameLobby />
+        {/* The lobby reads its view from the query string */}
+        <Suspense>
+          <GameLobby />
+        </Suspense>
       </main>
       </div>
     </div>
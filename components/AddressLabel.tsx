@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { shortenAddress } from '@/lib/namesApi';
+import { useName } from '@/hooks/useName';
+
+interface AddressLabelProps {
+  address: string;
+  /** Link the label, e.g. to the player's profile */
+  href?: string;
+  /** Show the full address instead of 0x1234...abcd when there's no name */
+  full?: boolean;
+  /** Hover card with the full address and a copy button; turn off inside buttons */
+  hoverCard?: boolean;
+  className?: string;
+}
+
+/**
+ * The one way an address is displayed: its Basename or ENS name and avatar
+ * when it has one, else the shortened address. Hovering shows the full
+ * address with a copy button.
+ */
+export default function AddressLabel({ address, href, full = false, hoverCard = true, className = '' }: AddressLabelProps) {
+  const resolved = useName(address);
+  const [copied, setCopied] = useState(false);
+  const label = resolved?.name ?? (full ? address : shortenAddress(address));
+
+  const handleCopy = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(address);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // ignore
+    }
+  };
+
+  return (
+    <span className={`group/address relative inline-flex items-center gap-1.5 min-w-0 align-middle ${className}`.trim()}>
+      {resolved?.avatar && (
+        <Image src={resolved.avatar} alt="" width={16} height={16} unoptimized className="w-4 h-4 rounded-full object-cover shrink-0" />
+      )}
+      {href ? (
+        <Link
+          href={href}
+          title={hoverCard ? undefined : address}
+          onClick={(e) => e.stopPropagation()}
+          className="truncate hover:text-[var(--neon-cyan)] hover:underline transition-colors"
+        >
+          {label}
+        </Link>
+      ) : (
+        <span className="truncate" title={hoverCard ? undefined : address}>{label}</span>
+      )}
+      {hoverCard && (
+        // Padding rather than margin, so the pointer can cross into the card without losing hover
+        <span className="invisible opacity-0 group-hover/address:visible group-hover/address:opacity-100 focus-within:visible focus-within:opacity-100 transition-opacity absolute left-0 top-full z-50 pt-1">
+          <span className="flex items-center gap-2 whitespace-nowrap rounded-md border border-white/10 bg-[var(--arena-charcoal)] px-2 py-1 font-mono text-xs text-gray-200 shadow-lg">
+            {address}
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="text-[var(--neon-cyan)] hover:text-white transition-colors"
+            >
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </span>
+        </span>
+      )}
+    </span>
+  );
+}
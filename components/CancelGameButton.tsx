@@ -3,13 +3,15 @@
 import { useState, useEffect, useRef } from 'react';
 import { useWriteContract, useWaitForTransactionReceipt, useAccount } from 'wagmi';
 import { formatEther } from 'viem';
-import { CONTRACT_ADDRESS, contractABI } from '@/lib/contract';
-import { createPublicClient, http } from 'viem';
-import { baseSepolia } from 'viem/chains';
+import { contractABI } from '@/lib/contract';
+import { canPerform, GameStatus } from '@/lib/gameStatus';
+import { useGracePeriod } from '@/hooks/useGracePeriod';
+import { useChainGuard } from '@/hooks/useChainGuard';
+import { useDeployment } from '@/hooks/useDeployment';
 
 interface CancelGameButtonProps {
   gameId: number;
-  gameStatus: 'REGISTRATION_OPEN' | 'READY_TO_START' | 'LIVE' | 'FINALIZED' | 'CANCELLED' | 'UNDERFILLED';
+  gameStatus: GameStatus;
   registrationDeadline: number;
   minPlayers: number;
   playerCount: number;
@@ -25,6 +27,9 @@ export default function CancelGameButton({
   onCancelSuccess,
 }: CancelGameButtonProps) {
   const { address } = useAccount();
+  const { chainId, contractAddress, publicClient } = useDeployment();
+  const { wrongChain, switchLabel, switching, switchToChain } = useChainGuard();
+  const gracePeriod = useGracePeriod();
   const [cancelReward, setCancelReward] = useState<bigint | null>(null);
   const [canCancel, setCanCancel] = useState(false);
   const [loadingReward, setLoadingReward] = useState(false);
@@ -38,41 +43,29 @@ export default function CancelGameButton({
     hash,
   });
 
-  // OPTIMIZATION: Only check if game might be cancellable
-  const mightBeCancellable = 
-    gameStatus === 'UNDERFILLED' || 
+  // Underfilled games (or open ones short of players) get a countdown; the reward is only read once cancellable
+  const cancellable = canPerform(gameStatus, 'cancel');
+  const mightBeCancellable =
+    cancellable ||
+    gameStatus === 'UNDERFILLED' ||
     (gameStatus === 'REGISTRATION_OPEN' && playerCount < minPlayers);
 
   // Fetch cancel reward only if potentially cancellable
   // Note: We check eligibility even without a connected wallet to show the button
   useEffect(() => {
-    if (!mightBeCancellable) {
+    if (!cancellable) {
       setCancelReward(null);
       setCanCancel(false);
       return;
     }
 
     const fetchCancelInfo = async () => {
-      // Don't check if deadline hasn't passed yet
-      const now = Math.floor(Date.now() / 1000);
-      const GRACE_PERIOD = 3600; // 1 hour
-      if (now < registrationDeadline + GRACE_PERIOD) {
-        setCanCancel(false);
-        setLoadingReward(false);
-        return;
-      }
-
       setLoadingReward(true);
       setError(null);
       
       try {
-        const publicClient = createPublicClient({
-          chain: baseSepolia,
-          transport: http(),
-        });
-
         const [reward, canCancelGame] = await publicClient.readContract({
-          address: CONTRACT_ADDRESS,
+          address: contractAddress,
           abi: contractABI,
           functionName: 'getCancelReward',
           args: [BigInt(gameId)],
@@ -92,17 +85,15 @@ export default function CancelGameButton({
 
     fetchCancelInfo();
     
-    // Poll if close to being cancellable or if we're still checking
-    if (mightBeCancellable) {
-      intervalRef.current = setInterval(fetchCancelInfo, 60000); // Check every 60s
-    }
+    // Keep the reward estimate fresh while the game sits cancellable
+    intervalRef.current = setInterval(fetchCancelInfo, 60000); // Check every 60s
     
     return () => {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
     };
-  }, [gameId, mightBeCancellable, registrationDeadline, playerCount, minPlayers]);
+  }, [gameId, cancellable, contractAddress, publicClient]);
 
   const handleCancel = () => {
     if (!address) {
@@ -115,9 +106,15 @@ export default function CancelGameButton({
       return;
     }
 
+    if (wrongChain) {
+      switchToChain();
+      return;
+    }
+
     setError(null);
     writeContract({
-      address: CONTRACT_ADDRESS,
+      address: contractAddress,
+      chainId,
       abi: contractABI,
       functionName: 'cancelGame',
       args: [BigInt(gameId)],
@@ -185,14 +182,10 @@ export default function CancelGameButton({
     return null;
   }
 
-  // Check if grace period has passed
-  const now = Math.floor(Date.now() / 1000);
-  const GRACE_PERIOD = 3600; // 1 hour
-  const gracePeriodPassed = now >= registrationDeadline + GRACE_PERIOD;
-  
   // If grace period hasn't passed, show countdown
-  if (!gracePeriodPassed) {
-    const timeRemaining = (registrationDeadline + GRACE_PERIOD) - now;
+  if (!cancellable) {
+    const now = Math.floor(Date.now() / 1000);
+    const timeRemaining = Math.max(0, (registrationDeadline + gracePeriod) - now);
     const hours = Math.floor(timeRemaining / 3600);
     const minutes = Math.floor((timeRemaining % 3600) / 60);
     return (
@@ -233,9 +226,9 @@ export default function CancelGameButton({
         <button
           onClick={handleCancel}
           className="w-full px-6 py-3 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          disabled={isProcessing || !canCancel}
+          disabled={isProcessing || !canCancel || switching}
         >
-          {isPending ? 'Confirming...' : isConfirming ? 'Cancelling...' : 'Cancel Game'}
+          {wrongChain ? switchLabel : isPending ? 'Confirming...' : isConfirming ? 'Cancelling...' : 'Cancel Game'}
         </button>
       )}
 
@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { useAccount, useSwitchChain } from 'wagmi';
+import { DEPLOYMENTS, isSupportedChain } from '@/lib/deployments';
+import { useDeployment } from '@/hooks/useDeployment';
+
+const deployments = Object.values(DEPLOYMENTS);
+
+const noopSubscribe = () => () => {};
+
+export default function ChainSwitcher() {
+  const { isConnected, chainId: walletChainId } = useAccount();
+  const { deployment } = useDeployment();
+  const { switchChain, isPending } = useSwitchChain();
+  // False during SSR and hydration, so wallet-dependent UI doesn't mismatch
+  const mounted = useSyncExternalStore(noopSubscribe, () => true, () => false);
+  const [showMenu, setShowMenu] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setShowMenu(false);
+      }
+    };
+    if (showMenu) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [showMenu]);
+
+  // Nothing to switch between with a single deployment, unless the wallet is on the wrong chain
+  const wrongChain = mounted && isConnected && !isSupportedChain(walletChainId);
+  if (!mounted || (deployments.length < 2 && !wrongChain)) {
+    return null;
+  }
+
+  return (
+    <div className="relative shrink-0" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setShowMenu(!showMenu)}
+        disabled={isPending}
+        className="wallet-btn"
+        style={wrongChain ? { borderColor: '#ef4444', color: '#f87171' } : undefined}
+        aria-expanded={showMenu}
+        aria-haspopup="true"
+        title={wrongChain ? 'Your wallet is on an unsupported network' : 'Switch network'}
+      >
+        <span className="text-[10px] tracking-wider">
+          {isPending ? 'Switching...' : wrongChain ? 'Wrong network' : deployment.chain.name}
+        </span>
+      </button>
+
+      {showMenu && (
+        <div className="wallet-dropdown">
+          {deployments.map((d) => (
+            <button
+              key={d.chain.id}
+              type="button"
+              className="wallet-dropdown__item"
+              onClick={() => {
+                switchChain({ chainId: d.chain.id });
+                setShowMenu(false);
+              }}
+              disabled={isPending || (!wrongChain && d.chain.id === deployment.chain.id)}
+            >
+              {d.chain.name}
+              {!wrongChain && d.chain.id === deployment.chain.id && ' ✓'}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useState, useRef } from 'react';
 import { useAccount, useDisconnect, useConnect } from 'wagmi';
 import { injected } from 'wagmi/connectors';
+import AddressLabel from './AddressLabel';
 
 function WalletIcon({ className, size = 10 }: { className?: string; size?: number }) {
   return (
@@ -94,8 +95,6 @@ export default function ConnectWalletClient() {
     }
   };
 
-  const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
-
   if (!mounted) {
     return <div className="h-11 min-w-[180px] max-w-[250px]" />;
   }
@@ -110,7 +109,7 @@ export default function ConnectWalletClient() {
           aria-expanded={showDropdown}
           aria-haspopup="true"
         >
-          <span className="min-w-0 truncate font-mono text-[10px] tracking-wider">{formatAddress(address)}</span>
+          <AddressLabel address={address} hoverCard={false} className="font-mono text-[10px] tracking-wider" />
           <ChevronDownIcon className={`shrink-0 opacity-80 transition-transform duration-200 ${showDropdown ? 'rotate-180' : ''}`} size={8} />
         </button>
 
@@ -3,7 +3,9 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { parseEther, formatEther } from 'viem';
 import { useWriteContract, useWaitForTransactionReceipt, useReadContract } from 'wagmi';
-import { CONTRACT_ADDRESS, contractABI } from '@/lib/contract';
+import { contractABI } from '@/lib/contract';
+import { explorerTxUrl } from '@/lib/deployments';
+import { useDeployment } from '@/hooks/useDeployment';
 
 interface CreateGameModalProps {
   onClose: () => void;
@@ -18,6 +20,7 @@ export default function CreateGameModal({ onClose, onSuccess }: CreateGameModalP
   const [minPlayers, setMinPlayers] = useState('10');
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { deployment, chainId, contractAddress } = useDeployment();
   const [toast, setToast] = useState<{ message: string; type: 'error' | 'info' } | null>(null);
   const [toastVisible, setToastVisible] = useState(false);
 
@@ -68,9 +71,10 @@ export default function CreateGameModal({ onClose, onSuccess }: CreateGameModalP
   }, [minPlayers]);
 
   const { data: entryFeeRequirement, error: entryFeeError, isLoading: isLoadingEntryFee } = useReadContract({
-    address: CONTRACT_ADDRESS,
+    address: contractAddress,
     abi: contractABI,
     functionName: 'getEntryFeeRequirement',
+    chainId,
     args: [BigInt(minPlayersNum)],
     query: {
       enabled: minPlayersNum >= 2 && minPlayersNum <= 100,
@@ -204,7 +208,8 @@ export default function CreateGameModal({ onClose, onSuccess }: CreateGameModalP
     
     try {
       writeContract({
-        address: CONTRACT_ADDRESS,
+        address: contractAddress,
+        chainId,
         abi: contractABI,
         functionName: 'createGame',
         args: [
@@ -379,9 +384,9 @@ export default function CreateGameModal({ onClose, onSuccess }: CreateGameModalP
         {(isPending || isConfirming) && (
           <div className="mt-4 rounded-lg border border-[var(--neon-blue)]/30 bg-black/30 p-3 text-sm text-white/80">
             {isPending ? 'Waiting for wallet...' : 'Confirming transaction...'}
-            {hash && (
+            {hash && deployment.explorerUrl && (
               <a 
-                href={`https://sepolia.basescan.org/tx/${hash}`}
+                href={explorerTxUrl(deployment, hash)!}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-[var(--neon-cyan)] hover:underline mt-2 block text-xs"
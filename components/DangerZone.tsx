@@ -0,0 +1,80 @@
+'use client';
+
+import { formatEther, type Address } from 'viem';
+import { PlayerStanding, RoundStandings } from '@/lib/roundStandings';
+import AddressLabel from './AddressLabel';
+
+interface DangerZoneProps {
+  standings: RoundStandings;
+  /** Connected wallet, highlighted with its margin */
+  address?: Address;
+}
+
+/** Players shown either side of the cut */
+const ROWS_AROUND_CUT = 3;
+
+function formatMargin(marginETH: bigint): string {
+  const abs = marginETH >= 0n ? marginETH : -marginETH;
+  return `${marginETH >= 0n ? '+' : '-'}${parseFloat(formatEther(abs)).toFixed(4)} ETH`;
+}
+
+function Row({ standing, isUser }: { standing: PlayerStanding; isUser: boolean }) {
+  return (
+    <li className={`flex justify-between gap-2 ${standing.eliminated ? 'text-red-300' : 'text-white/85'} ${isUser ? 'font-semibold' : ''}`}>
+      <span className="font-mono">
+        #{standing.rank} {isUser ? 'You' : <AddressLabel address={standing.address} />}
+      </span>
+      <span className="text-gray-400">
+        {standing.gainPercent >= 0 ? '+' : ''}{standing.gainPercent.toFixed(2)}%
+        {standing.marginETH !== null && ` · ${formatMargin(standing.marginETH)}`}
+      </span>
+    </li>
+  );
+}
+
+/**
+ * Live projection of the current round: the ranks around the cutoff with a
+ * line where it falls, and the connected player's margin to it.
+ */
+export default function DangerZone({ standings, address }: DangerZoneProps) {
+  const user = address
+    ? standings.standings.find((standing) => standing.address.toLowerCase() === address.toLowerCase())
+    : undefined;
+  const from = Math.max(0, standings.cutoff - ROWS_AROUND_CUT);
+  const above = standings.standings.slice(from, standings.cutoff);
+  const below = standings.standings.slice(standings.cutoff, standings.cutoff + ROWS_AROUND_CUT);
+
+  return (
+    <div className="arena-panel p-3">
+      <div className="flex items-center justify-between text-xs mb-2">
+        <span className="text-[var(--neon-cyan)]">Danger Zone</span>
+        <span className="text-gray-400">Top {standings.cutoff} of {standings.standings.length} survive</span>
+      </div>
+
+      {user && (
+        <div className={`text-sm mb-2 ${user.eliminated ? 'text-[var(--neon-pink)]' : 'text-[var(--accent-green)]'}`}>
+          {user.eliminated ? 'Below the cut' : 'Above the cut'} at #{user.rank}
+          {user.marginETH !== null && <span className="text-xs text-gray-400"> ({formatMargin(user.marginETH)})</span>}
+        </div>
+      )}
+
+      {standings.cutGainPercent === null ? (
+        <div className="text-xs text-gray-400">No one is projected out this round</div>
+      ) : (
+        <ul className="space-y-1 text-xs">
+          {above.map((standing) => (
+            <Row key={standing.address} standing={standing} isUser={standing.address === user?.address} />
+          ))}
+          <li className="flex items-center gap-2 text-[10px] text-red-400" aria-label="Cutoff">
+            <span className="h-px flex-1 bg-red-500/50" />
+            <span>cut</span>
+            <span className="h-px flex-1 bg-red-500/50" />
+          </li>
+          {below.map((standing) => (
+            <Row key={standing.address} standing={standing} isUser={standing.address === user?.address} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatEther, formatUnits, zeroHash } from 'viem';
+import { LIVE_REFRESH_MS, useBlockRefetch } from '@/hooks/useBlockRefetch';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useName } from '@/hooks/useName';
+import { Deployment, explorerTxUrl } from '@/lib/deployments';
+import { fetchGameEvents } from '@/lib/events';
+import { ACTIVITY_EVENTS, ACTIVITY_LABELS, ActivityEntry, ActivityType, buildActivity } from '@/lib/activity';
+import { shortenAddress } from '@/lib/namesApi';
+import AddressLabel from './AddressLabel';
+import PlayerLink from './PlayerLink';
+
+interface GameActivityProps {
+  gameId: number;
+  /** Follow new blocks while the game is running */
+  live: boolean;
+}
+
+/** Entries shown per "Show more" */
+const PAGE_SIZE = 50;
+
+const PLACE_LABELS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd' };
+
+const TYPE_COLORS: Partial<Record<ActivityType, string>> = {
+  PlayerRegistered: 'text-[var(--neon-cyan)]',
+  RoundStarted: 'text-[var(--accent-green)]',
+  PlayerMarkedForElimination: 'text-amber-400',
+  PlayerEliminated: 'text-red-400',
+  PenaltyApplied: 'text-red-300',
+  ViolationReported: 'text-amber-300',
+  RoundFinalized: 'text-[var(--accent-green)]',
+  PrizePaid: 'text-[#fbbf24]',
+};
+
+function formatTokenAmount(deployment: Deployment, token: string, amount: string): string {
+  const known = deployment.tokens.find((t) => t.address !== 'native' && t.address.toLowerCase() === token.toLowerCase());
+  return known ? `${formatUnits(BigInt(amount), known.decimals)} ${known.symbol}` : `${amount} of ${shortenAddress(token)}`;
+}
+
+/** A bytes32 evidence or tx hash; linked to the explorer when it's a tx on this chain */
+function HashRef({ deployment, hash, label }: { deployment: Deployment; hash: string; label: string }) {
+  if (!hash || hash === zeroHash) return null;
+  const url = label === 'tx' ? explorerTxUrl(deployment, hash) : null;
+  const text = `${label} ${hash.slice(0, 10)}…`;
+  return url ? (
+    <a href={url} target="_blank" rel="noopener noreferrer" title={hash} className="font-mono text-xs text-gray-500 hover:text-[var(--neon-cyan)]">
+      {text}
+    </a>
+  ) : (
+    <span title={hash} className="font-mono text-xs text-gray-500">{text}</span>
+  );
+}
+
+function describe(entry: ActivityEntry, deployment: Deployment): React.ReactNode {
+  const { args } = entry;
+  const player = entry.player ? <PlayerLink address={entry.player} /> : null;
+  switch (entry.type) {
+    case 'PlayerRegistered':
+      return <>{player} joined on square #{Number(args.squareIndex) + 1}</>;
+    case 'RoundStarted':
+      return (
+        <>
+          {player} started the game with {String(args.playerCount)} players
+          {BigInt(args.reward as string) > 0n && <> · earned {formatEther(BigInt(args.reward as string))} ETH</>}
+        </>
+      );
+    case 'RoundSnapshotTaken':
+      return <>Round {entry.round} start snapshot of {player}: {Number(formatEther(BigInt(args.ethBalance as string))).toFixed(6)} ETH</>;
+    case 'PlayerMarkedForElimination':
+    case 'PlayerEliminated':
+      return (
+        <>
+          {player} {entry.type === 'PlayerEliminated' ? 'eliminated' : 'marked for elimination'}
+          {args.reason && <>: {String(args.reason)}</>}{' '}
+          <HashRef deployment={deployment} hash={String(args.evidence)} label="evidence" />
+        </>
+      );
+    case 'PenaltyApplied':
+      return (
+        <>
+          {player} penalized {formatTokenAmount(deployment, String(args.token), String(args.amount))}{' '}
+          <HashRef deployment={deployment} hash={String(args.txHash)} label="tx" />
+        </>
+      );
+    case 'ViolationReported':
+      return (
+        <>
+          Violation reported for {player}: type {String(args.violationType)}, {formatTokenAmount(deployment, String(args.token), String(args.amount))}{' '}
+          <HashRef deployment={deployment} hash={String(args.txHash)} label="tx" />
+        </>
+      );
+    case 'RoundFinalized':
+      return <>Round {entry.round} finalized · {String(args.survivors)} survivor{String(args.survivors) === '1' ? '' : 's'}</>;
+    case 'FinalizationRewardPaid':
+      return (
+        <>
+          {player} finalized round {entry.round} · earned{' '}
+          {formatEther(BigInt(args.rewardAmount as string))} ETH
+        </>
+      );
+    case 'GasReimbursed':
+      return <>Oracle <AddressLabel address={entry.player!} /> reimbursed {formatEther(BigInt(args.amount as string))} ETH for gas</>;
+    case 'PrizePaid':
+      return (
+        <>
+          {player} won {PLACE_LABELS[Number(args.place)] ?? `#${args.place}`} place · {formatEther(BigInt(args.amount as string))} ETH
+        </>
+      );
+  }
+}
+
+/** Player filter option, labelled with the player's name once resolved */
+function PlayerOption({ address }: { address: string }) {
+  const resolved = useName(address);
+  return <option value={address}>{resolved?.name ?? shortenAddress(address)}</option>;
+}
+
+/**
+ * Everything that happened in a game, latest first, from the indexed
+ * contract events. Filterable by event type and player; follows new blocks
+ * while the game is live.
+ */
+export default function GameActivity({ gameId, live }: GameActivityProps) {
+  const { deployment, contract } = useDeployment();
+  const [hiddenTypes, setHiddenTypes] = useState<Set<ActivityType>>(new Set());
+  const [player, setPlayer] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const { data: entries, isLoading, error, dataUpdatedAt, refetch } = useQuery({
+    queryKey: ['gameActivity', contract.id, gameId],
+    queryFn: async () => {
+      const { events } = await fetchGameEvents(contract.id, gameId, [...ACTIVITY_EVENTS]);
+      return buildActivity(events);
+    },
+    staleTime: live ? LIVE_REFRESH_MS : 60_000,
+  });
+
+  useBlockRefetch(contract.chainId, live, dataUpdatedAt, refetch);
+
+  const players = useMemo(
+    () => (entries ?? []).filter((entry) => entry.type === 'PlayerRegistered' && entry.player).map((entry) => entry.player!).reverse(),
+    [entries]
+  );
+  const visible = useMemo(
+    () => (entries ?? []).filter((entry) => !hiddenTypes.has(entry.type) && (!player || entry.player?.toLowerCase() === player.toLowerCase())),
+    [entries, hiddenTypes, player]
+  );
+
+  const toggleType = (type: ActivityType) => {
+    setHiddenTypes((current) => {
+      const next = new Set(current);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  };
+
+  if (isLoading) {
+    return <div className="text-gray-400 text-sm">Loading activity...</div>;
+  }
+  if (error || !entries) {
+    return <div className="text-gray-400 text-sm">Couldn&apos;t load this game&apos;s activity.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {ACTIVITY_EVENTS.map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => toggleType(type)}
+            aria-pressed={!hiddenTypes.has(type)}
+            className={`rounded px-2 py-1 border border-white/10 transition-opacity ${hiddenTypes.has(type) ? 'opacity-40' : ''} ${TYPE_COLORS[type] ?? 'text-gray-300'}`}
+          >
+            {ACTIVITY_LABELS[type]}
+          </button>
+        ))}
+        {players.length > 0 && (
+          <select
+            value={player}
+            onChange={(e) => setPlayer(e.target.value)}
+            aria-label="Filter by player"
+            className="ml-auto px-2 py-1 rounded border border-white/10 bg-black/30 text-gray-300"
+          >
+            <option value="">All players</option>
+            {players.map((address) => (
+              <PlayerOption key={address} address={address} />
+            ))}
+          </select>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="text-gray-400 text-sm">No activity{entries.length > 0 ? ' matches these filters' : ' yet'}.</div>
+      ) : (
+        <ul className="divide-y divide-white/5 text-sm">
+          {visible.slice(0, limit).map((entry) => {
+            const txUrl = explorerTxUrl(deployment, entry.transactionHash);
+            return (
+              <li key={entry.id} className="flex items-start justify-between gap-4 py-2">
+                <div className="min-w-0 text-gray-300">
+                  <span className={`mr-2 text-xs uppercase tracking-wider ${TYPE_COLORS[entry.type] ?? 'text-gray-400'}`}>
+                    {ACTIVITY_LABELS[entry.type]}
+                  </span>
+                  {describe(entry, deployment)}
+                </div>
+                <div className="shrink-0 text-xs text-gray-500 tabular-nums">
+                  {entry.round !== null && <span className="mr-2">R{entry.round}</span>}
+                  {txUrl ? (
+                    <a href={txUrl} target="_blank" rel="noopener noreferrer" className="hover:text-[var(--neon-cyan)]" title={entry.transactionHash}>
+                      #{entry.blockNumber} ↗
+                    </a>
+                  ) : (
+                    <span title={entry.transactionHash}>#{entry.blockNumber}</span>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {visible.length > limit && (
+        <button
+          type="button"
+          onClick={() => setLimit(limit + PAGE_SIZE)}
+          className="text-sm text-[var(--neon-cyan)] hover:underline"
+        >
+          Show more ({visible.length - limit} older)
+        </button>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useEffect, useState } from 'react';
 import PlayerSquare from './PlayerSquare';
 import { useGameUpdates } from '@/hooks/useGameUpdates';
 import { Address } from 'viem';
+import { Portfolio } from '@/lib/portfolio';
+import { PlayerStanding, RoundStandings } from '@/lib/roundStandings';
 
 interface Player {
   wallet: Address;
@@ -12,16 +14,24 @@ interface Player {
   isEliminated: boolean;
   gainPercent: number;
   balance: bigint;
+  penaltyETH?: bigint;
+  adjustedGainPercent?: number;
+  portfolio?: Portfolio;
+  portfolioGainPercent?: number;
 }
 
 interface GameBoardProps {
   gameId: number;
   players: Player[];
+  /** Projected standings for the current round; squares under the cut are highlighted */
+  standings?: RoundStandings;
+  /** Merge live scores from the WebSocket feed; off for replays */
+  live?: boolean;
 }
 
-export default function GameBoard({ gameId, players }: GameBoardProps) {
+export default function GameBoard({ gameId, players, standings, live = true }: GameBoardProps) {
   const [squares, setSquares] = useState<(Player | null)[]>(new Array(100).fill(null));
-  const { scores } = useGameUpdates(gameId);
+  const { scores } = useGameUpdates(live ? gameId : null);
 
   useEffect(() => {
     const newSquares = new Array(100).fill(null) as (Player | null)[];
@@ -46,27 +56,50 @@ export default function GameBoard({ gameId, players }: GameBoardProps) {
     setSquares(newSquares);
   }, [players, scores]);
 
+  const standingsByWallet = new Map<string, PlayerStanding>(
+    (standings?.standings ?? []).map((standing) => [standing.address.toLowerCase(), standing])
+  );
+
   return (
     <div className="w-full">
+      {standings?.cutGainPercent != null && (
+        <div className="flex items-center gap-3 mb-2 text-xs text-gray-400">
+          <span className="h-px flex-1 bg-red-500/40" />
+          <span>
+            Cut: top {standings.cutoff} survive · line at {standings.cutGainPercent >= 0 ? '+' : ''}{standings.cutGainPercent.toFixed(2)}%
+            {standings.eliminated.length > 0 && <span className="text-red-400"> · {standings.eliminated.length} in the danger zone</span>}
+          </span>
+          <span className="h-px flex-1 bg-red-500/40" />
+        </div>
+      )}
       <div className="grid grid-cols-10 gap-1">
-        {squares.map((player, index) => (
-          <div key={index} className="aspect-square">
-            {player ? (
-              <PlayerSquare
-                player={player.wallet}
-                rank={player.rank}
-                isEliminated={player.isEliminated}
-                squareIndex={index}
-                gainPercent={player.gainPercent}
-                balance={player.balance}
-              />
-            ) : (
-              <div className="w-full h-full rounded border border-[var(--neon-blue)]/20 bg-black/40 flex items-center justify-center text-gray-400 text-[10px] hover:border-[var(--neon-blue)]/40 transition-colors">
-                #{index + 1}
-              </div>
-            )}
-          </div>
-        ))}
+        {squares.map((player, index) => {
+          const standing = player ? standingsByWallet.get(player.wallet.toLowerCase()) : undefined;
+          return (
+            <div key={index} className="aspect-square">
+              {player ? (
+                <PlayerSquare
+                  player={player.wallet}
+                  rank={player.rank}
+                  isEliminated={player.isEliminated}
+                  atRisk={standing?.eliminated ?? false}
+                  marginETH={standing?.marginETH ?? undefined}
+                  squareIndex={index}
+                  gainPercent={player.gainPercent}
+                  adjustedGainPercent={player.adjustedGainPercent}
+                  penaltyETH={player.penaltyETH}
+                  portfolio={player.portfolio}
+                  portfolioGainPercent={player.portfolioGainPercent}
+                  balance={player.balance}
+                />
+              ) : (
+                <div className="w-full h-full rounded border border-[var(--neon-blue)]/20 bg-black/40 flex items-center justify-center text-gray-400 text-[10px] hover:border-[var(--neon-blue)]/40 transition-colors">
+                  #{index + 1}
+                </div>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -3,26 +3,39 @@
 import { formatEther } from 'viem';
 import Link from 'next/link';
 import { useEffect, useState } from 'react';
+import { GAME_STATUS_LABELS, GameStatus } from '@/lib/gameStatus';
+import { getContractDeployment } from '@/lib/deployments';
+import { useLiveRound } from '@/hooks/useLiveRound';
 
 interface GameCardProps {
+  /** Contract id from lib/deployments.ts, part of the game URL */
+  deploymentId: string;
   gameId: number;
   entryFee: bigint | string | undefined;
   playerCount: number;
   minPlayers: number;
   deadline: number;
-  status: 'REGISTRATION_OPEN' | 'READY_TO_START' | 'LIVE' | 'FINALIZED' | 'CANCELLED';
+  status: GameStatus;
   prizePool: bigint | string | undefined;
+  currentRound: number;
+  totalRounds: number;
+  /** When the lobby last saw a contract event for this game (ms); re-reads the live round */
+  lastEventAt?: number;
 }
 
-const statusColors: Record<string, { bg: string; border: string; text: string }> = {
+const statusColors: Record<GameStatus, { bg: string; border: string; text: string }> = {
   REGISTRATION_OPEN: { bg: 'rgba(251, 191, 36, 0.15)', border: 'var(--accent-yellow)', text: '#fbbf24' },
   READY_TO_START: { bg: 'rgba(16, 185, 129, 0.15)', border: 'var(--accent-green)', text: '#10b981' },
+  UNDERFILLED: { bg: 'rgba(245, 158, 11, 0.15)', border: '#f59e0b', text: '#f59e0b' },
+  CANCELLABLE: { bg: 'rgba(239, 68, 68, 0.15)', border: '#ef4444', text: '#f87171' },
   LIVE: { bg: 'rgba(0, 212, 255, 0.15)', border: 'var(--neon-blue)', text: 'var(--neon-cyan)' },
+  AWAITING_FINALIZATION: { bg: 'rgba(16, 185, 129, 0.15)', border: 'var(--accent-green)', text: '#10b981' },
   FINALIZED: { bg: 'rgba(107, 114, 128, 0.2)', border: '#6b7280', text: '#9ca3af' },
   CANCELLED: { bg: 'rgba(239, 68, 68, 0.15)', border: '#ef4444', text: '#f87171' },
 };
 
 export default function GameCard({
+  deploymentId,
   gameId,
   entryFee,
   playerCount,
@@ -30,8 +43,18 @@ export default function GameCard({
   deadline,
   status,
   prizePool,
+  currentRound,
+  totalRounds,
+  lastEventAt,
 }: GameCardProps) {
   const [timeRemaining, setTimeRemaining] = useState<string>('');
+  const isLive = status === 'LIVE' || status === 'AWAITING_FINALIZATION';
+  // The lobby derives status without rounds, so a finished round shows up here first
+  const [roundOver, setRoundOver] = useState(false);
+  const { round, finalizationReward } = useLiveRound(getContractDeployment(deploymentId), gameId, currentRound, isLive, lastEventAt, roundOver);
+  const roundEndTime = round && round.endTime > 0n ? Number(round.endTime) : null;
+  const awaitingFinalization = isLive && !!round && !round.finalized && roundOver;
+  const displayStatus: GameStatus = awaitingFinalization ? 'AWAITING_FINALIZATION' : status;
   const isTeamBlue = gameId % 2 === 0;
   const teamColor = isTeamBlue ? 'var(--neon-blue)' : 'var(--neon-pink)';
   const teamGlow = isTeamBlue
@@ -40,14 +63,17 @@ export default function GameCard({
 
   useEffect(() => {
     const updateCountdown = () => {
-      if (status !== 'REGISTRATION_OPEN' && status !== 'READY_TO_START') {
+      const registering = status === 'REGISTRATION_OPEN' || status === 'READY_TO_START';
+      const target = registering ? deadline : isLive ? roundEndTime : null;
+      if (target === null) {
         setTimeRemaining('');
         return;
       }
       const now = Math.floor(Date.now() / 1000);
-      const remaining = deadline - now;
+      const remaining = target - now;
+      setRoundOver(isLive && remaining <= 0);
       if (remaining <= 0) {
-        setTimeRemaining('Deadline passed');
+        setTimeRemaining(registering ? 'Deadline passed' : '');
         return;
       }
       const hours = Math.floor(remaining / 3600);
@@ -60,7 +86,7 @@ export default function GameCard({
     updateCountdown();
     const interval = setInterval(updateCountdown, 1000);
     return () => clearInterval(interval);
-  }, [deadline, status]);
+  }, [deadline, status, isLive, roundEndTime]);
 
   const entryFeeValue = entryFee
     ? (typeof entryFee === 'bigint' ? entryFee : BigInt(String(entryFee) || '0'))
@@ -72,17 +98,10 @@ export default function GameCard({
   const entryFeeUsd = (parseFloat(entryFeeEth) * 3300).toFixed(2);
   const prizePoolEth = formatEther(prizePoolValue);
 
-  const statusLabels: Record<string, string> = {
-    REGISTRATION_OPEN: 'Registration Open',
-    READY_TO_START: 'Ready to Start',
-    LIVE: 'Live',
-    FINALIZED: 'Finished',
-    CANCELLED: 'Cancelled',
-  };
-  const sc = statusColors[status] ?? statusColors.FINALIZED;
+  const sc = statusColors[displayStatus] ?? statusColors.FINALIZED;
 
   return (
-    <Link href={`/game/${gameId}`} className="block group w-full max-w-sm mx-auto">
+    <Link href={`/game/${deploymentId}/${gameId}`} className="block group w-full max-w-sm mx-auto">
       <div
         className="relative p-8 transition-all duration-300 cursor-pointer font-sans overflow-hidden border-2"
         style={{
@@ -120,7 +139,7 @@ export default function GameCard({
             className="px-3 py-1 text-xs font-semibold rounded-lg font-sans"
             style={{ backgroundColor: sc.bg, color: sc.text, border: `1px solid ${sc.border}60` }}
           >
-            {statusLabels[status]}
+            {GAME_STATUS_LABELS[displayStatus]}
           </span>
         </div>
 
@@ -145,19 +164,36 @@ export default function GameCard({
         </div>
 
         <div className="space-y-3">
-          <div className="flex justify-between items-center">
-            <span className="text-[var(--text-muted)] text-sm font-sans">Players</span>
-            <span className="text-white font-semibold font-sans">{playerCount} / {minPlayers} min</span>
-          </div>
-          <div className="w-full h-1.5 rounded-full bg-white/10 overflow-hidden">
-            <div
-              className="h-full rounded-full transition-all duration-500"
-              style={{
-                width: `${Math.min(100, (playerCount / Math.max(minPlayers, 1)) * 100)}%`,
-                background: `linear-gradient(90deg, ${teamColor}, ${isTeamBlue ? 'var(--neon-pink)' : 'var(--neon-blue)'})`,
-              }}
-            />
-          </div>
+          {isLive ? (
+            <>
+              <div className="flex justify-between items-center">
+                <span className="text-[var(--text-muted)] text-sm font-sans">Round</span>
+                <span className="text-white font-semibold font-sans">{currentRound} / {totalRounds}</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-[var(--text-muted)] text-sm font-sans">Survivors</span>
+                <span className="text-white font-semibold font-sans">
+                  {round ? `${Number(round.alivePlayers)} / ${playerCount}` : '…'}
+                </span>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex justify-between items-center">
+                <span className="text-[var(--text-muted)] text-sm font-sans">Players</span>
+                <span className="text-white font-semibold font-sans">{playerCount} / {minPlayers} min</span>
+              </div>
+              <div className="w-full h-1.5 rounded-full bg-white/10 overflow-hidden">
+                <div
+                  className="h-full rounded-full transition-all duration-500"
+                  style={{
+                    width: `${Math.min(100, (playerCount / Math.max(minPlayers, 1)) * 100)}%`,
+                    background: `linear-gradient(90deg, ${teamColor}, ${isTeamBlue ? 'var(--neon-pink)' : 'var(--neon-blue)'})`,
+                  }}
+                />
+              </div>
+            </>
+          )}
           <div className="flex justify-between items-center">
             <span className="text-[var(--text-muted)] text-sm font-sans">Prize Pool</span>
             <span
@@ -169,10 +205,20 @@ export default function GameCard({
           </div>
         </div>
 
+        {awaitingFinalization && (
+          <div
+            className="mt-4 px-3 py-2 rounded-lg text-xs font-semibold font-sans"
+            style={{ backgroundColor: statusColors.AWAITING_FINALIZATION.bg, color: statusColors.AWAITING_FINALIZATION.text }}
+          >
+            Round {currentRound} awaiting finalization
+            {finalizationReward !== undefined && <>, reward ~{Number(formatEther(finalizationReward)).toFixed(5)} ETH</>}
+          </div>
+        )}
+
         {timeRemaining && (
           <div className="mt-4 pt-4 border-t border-white/10">
             <div className="flex justify-between items-center">
-              <span className="text-[var(--text-muted)] text-sm font-sans">Registration closes</span>
+              <span className="text-[var(--text-muted)] text-sm font-sans">{isLive ? `Round ${currentRound} ends in` : 'Registration closes'}</span>
               <span className="font-semibold font-sans" style={{ color: 'var(--neon-magenta)' }}>
                 {timeRemaining}
               </span>
@@ -183,10 +229,35 @@ export default function GameCard({
         {/* Join - transparent plastic rectangle */}
         <div className="mt-5 flex justify-end">
           <span className="inline-flex items-center justify-center min-w-[80px] px-4 py-2 rounded-md text-sm font-bold text-white plastic-rect plastic-tint-blue">
-            Join
+            {isLive ? 'Watch' : 'Join'}
           </span>
         </div>
       </div>
     </Link>
   );
 }
+
+/** Placeholder with a GameCard's footprint while a page of games loads */
+export function GameCardSkeleton() {
+  return (
+    <div
+      className="w-full max-w-sm mx-auto p-8 border-2 border-white/10 animate-pulse"
+      style={{ background: 'var(--glass-bg)', borderRadius: '20px' }}
+      aria-hidden
+    >
+      <div className="flex items-center justify-between mb-5">
+        <div className="h-5 w-24 rounded bg-white/10" />
+        <div className="h-6 w-20 rounded-lg bg-white/10" />
+      </div>
+      <div className="h-20 rounded-xl bg-black/25 border border-white/5 mb-4" />
+      <div className="space-y-3">
+        <div className="h-4 rounded bg-white/10" />
+        <div className="h-1.5 rounded-full bg-white/10" />
+        <div className="h-4 rounded bg-white/10" />
+      </div>
+      <div className="mt-5 flex justify-end">
+        <div className="h-9 w-20 rounded-md bg-white/10" />
+      </div>
+    </div>
+  );
+}
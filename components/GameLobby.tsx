@@ -1,12 +1,30 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { useReadContract, useAccount } from 'wagmi';
-import { contractABI, CONTRACT_ADDRESS } from '@/lib/contract';
-import GameCard from './GameCard';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useAccount } from 'wagmi';
+import GameCard, { GameCardSkeleton } from './GameCard';
 import CreateGameModal from './CreateGameModal';
 import FilterButton from './FilterButton';
-import { Address } from 'viem';
+import LobbyFilters from './LobbyFilters';
+import { decodeGame, SerializedGame } from '@/lib/decoders';
+import { deriveGameStatus, matchesFilter } from '@/lib/gameStatus';
+import { useGracePeriod } from '@/hooks/useGracePeriod';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useLobbyEvents } from '@/hooks/useLobbyEvents';
+import { useNow } from '@/hooks/useNow';
+import {
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_SORT_ORDER,
+  fetchGame,
+  fetchGamesPage,
+  GAME_LIST_SORT_LABELS,
+  GAME_LIST_SORTS,
+  GameListFilter,
+  GameListSort,
+  MAX_PAGE_SIZE,
+} from '@/lib/gamesApi';
+import { LobbyView, lobbyViewParams, lobbyViewQuery, readLobbyView } from '@/lib/lobbyView';
 
 function SwordsIcon({ className, style }: { className?: string; style?: React.CSSProperties }) {
   return (
@@ -16,108 +34,158 @@ function SwordsIcon({ className, style }: { className?: string; style?: React.CS
   );
 }
 
-type GameStatus = 'REGISTRATION_OPEN' | 'READY_TO_START' | 'LIVE' | 'FINALIZED' | 'CANCELLED';
-
-interface Game {
-  gameId: string | bigint;
-  startTime: string | bigint;
-  endTime: string | bigint;
-  currentRound: string | bigint;
-  totalRounds: string | bigint;
-  roundDuration: string | bigint;
-  playerCount: string | bigint;
-  prizePool: string | bigint;
-  active: boolean;
-  finalized: boolean;
-  cancelled: boolean;
-  entryFee: string | bigint;
-  registrationDeadline: string | bigint;
-  minPlayers: string | bigint;
-  operationsFund: string | bigint;
-  platformFee: string | bigint;
-  totalGasReimbursed: string | bigint;
-}
-
 export default function GameLobby() {
   const { address, isConnected } = useAccount();
   const [mounted, setMounted] = useState(false);
-  const [currentGameId, setCurrentGameId] = useState<bigint>(0n);
-  const [games, setGames] = useState<Game[]>([]);
-  const [filter, setFilter] = useState<'all' | 'open' | 'starting' | 'live' | 'finished'>('open');
+  const [games, setGames] = useState<SerializedGame[]>([]);
+  const gamesRef = useRef(games);
+  // When each game last had a contract event; cards re-read their live round off it
+  const [lastEventAt, setLastEventAt] = useState<Record<string, number>>({});
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const gracePeriod = useGracePeriod();
+  // Statuses move on with the clock (registration closing) even without events
+  const now = useNow(30_000);
+  const { deployment } = useDeployment();
+  // Tab, sort and filters live in the URL so a view can be shared
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+  const view = useMemo(() => readLobbyView(new URLSearchParams(searchParams.toString())), [searchParams]);
+  const filter = view.status;
+  // Past deployments on the chain stay browsable; only the current one takes new games
+  const contract = deployment.contracts.find((c) => c.id === view.deployment) ?? deployment.contract;
+  // Refreshes re-read everything already on screen, not just the first page
+  const loadedCountRef = useRef(DEFAULT_PAGE_SIZE);
+  // Which view the games on screen belong to; responses for an older view are dropped
+  const viewKey = `${contract.id}?${searchParams.toString()}`;
+  const viewKeyRef = useRef(viewKey);
+  const [loadedViewKey, setLoadedViewKey] = useState<string | null>(null);
+  const loading = loadedViewKey !== viewKey;
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   // Only show connection-dependent UI after mount to avoid hydration mismatch
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  // Get current game ID
-  const { data: gameId } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: contractABI,
-    functionName: 'currentGameId',
-  });
+  useEffect(() => {
+    viewKeyRef.current = viewKey;
+  }, [viewKey]);
+
+  useEffect(() => {
+    gamesRef.current = games;
+  }, [games]);
 
   // Anyone can create a game now (no owner check needed)
 
-  useEffect(() => {
-    if (gameId) {
-      setCurrentGameId(gameId as bigint);
+  const updateView = (changes: Partial<LobbyView>) => {
+    const params = lobbyViewParams({ ...view, ...changes }).toString();
+    router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false });
+  };
+
+  const setFilter = (status: GameListFilter) => updateView({ status });
+  const setSort = (sort: GameListSort) => updateView({ sort, order: DEFAULT_SORT_ORDER[sort] });
+
+  const refreshGames = useCallback(async () => {
+    const key = viewKey;
+    try {
+      const query = { ...lobbyViewQuery(view), deployment: contract.id };
+      let refreshed: SerializedGame[] = [];
+      let cursor: string | null = null;
+      // Page through in MAX_PAGE_SIZE steps; finished games come from the server's cache
+      do {
+        const page = await fetchGamesPage({
+          ...query,
+          cursor,
+          limit: Math.min(loadedCountRef.current - refreshed.length, MAX_PAGE_SIZE),
+        });
+        refreshed = [...refreshed, ...page.games];
+        cursor = page.nextCursor;
+      } while (cursor && refreshed.length < loadedCountRef.current);
+
+      if (viewKeyRef.current !== key) return;
+      setGames(refreshed);
+      setNextCursor(cursor);
+      setLoadedViewKey(key);
+    } catch (error) {
+      console.error('Error fetching games:', error);
     }
-  }, [gameId]);
+  }, [contract.id, view, viewKey]);
 
-  // Fetch games based on filter - only fetch what we need
+  // Filtering and sorting happen server-side; any change to the view (or chain) starts again from the first page
   useEffect(() => {
-    const fetchGames = async () => {
-      if (!currentGameId || currentGameId === 0n) return;
-
-      // For "open" and "live" filters, only fetch recent games (last 20)
-      // For "finished", fetch more (last 50)
-      // For "all", fetch recent (last 30)
-      const maxGames = filter === 'finished' ? 50 : filter === 'all' ? 30 : 20;
-      const startId = Math.max(1, Number(currentGameId) - maxGames + 1);
-      
-      const gamePromises: Promise<Game>[] = [];
-      for (let i = startId; i <= Number(currentGameId); i++) {
-        gamePromises.push(
-          fetch(`/api/game/${i}`).then(res => res.json()).catch(() => null)
-        );
-      }
-
-      const results = await Promise.all(gamePromises);
-      setGames(results.filter(Boolean) as Game[]);
-    };
-
-    fetchGames();
-    // OPTIMIZATION: Reduced refresh rate from 30s to 60s for better performance
-    const interval = setInterval(fetchGames, 60000);
-    return () => clearInterval(interval);
-  }, [currentGameId, filter]);
-
-  const filteredGames = games.filter(game => {
-    const startTime = BigInt(game.startTime?.toString() || '0');
-    const deadline = Number(game.registrationDeadline?.toString() || '0');
-    const now = Math.floor(Date.now() / 1000);
-    const deadlinePassed = deadline > 0 && deadline < now;
-    const playerCount = Number(game.playerCount?.toString() || '0');
-    const minPlayers = Number(game.minPlayers?.toString() || '0');
-    const canStart = playerCount >= minPlayers; // Game can actually start
-    
-    if (filter === 'open') {
-      // Show games that are not finalized, not cancelled, not started, deadline hasn't passed
-      // Underfilled games past deadline should NOT appear here - they go to "All" or "Finished" only
-      return !game.finalized && !game.cancelled && startTime === 0n && !deadlinePassed;
+    loadedCountRef.current = DEFAULT_PAGE_SIZE;
+    refreshGames();
+  }, [refreshGames]);
+
+  // Contract events drive updates instead of polling. A new game, a game off screen
+  // changing status (it may belong on this tab now), or any change under a value sort
+  // can move cards around, so those re-read the list; otherwise only the touched cards
+  // are re-read, and dropped if they've left the current tab.
+  useLobbyEvents(contract, async ({ gameIds, created, statusChanged }) => {
+    const seenAt = Date.now();
+    setLastEventAt((prev) => ({ ...prev, ...Object.fromEntries(gameIds.map((id) => [id.toString(), seenAt])) }));
+    const isShown = (id: bigint) => gamesRef.current.some((game) => game.gameId === id.toString());
+    if (created || statusChanged.some((id) => !isShown(id)) || (view.sort !== 'newest' && view.sort !== 'oldest')) {
+      refreshGames();
+      return;
     }
-    if (filter === 'starting') {
-      // Show games where deadline passed, game hasn't started yet, AND has enough players to start
-      // Underfilled games past deadline should NOT appear here - they go to "All" or "Finished" only
-      return !game.finalized && !game.cancelled && startTime === 0n && deadlinePassed && canStart;
+    const key = viewKey;
+    const shown = gameIds.filter(isShown);
+    if (shown.length === 0) return;
+    try {
+      const updated = new Map((await Promise.all(shown.map((id) => fetchGame(contract.id, id)))).map((game) => [game.gameId, game]));
+      if (viewKeyRef.current !== key) return;
+      const now = Math.floor(Date.now() / 1000);
+      setGames((prev) => prev
+        .map((game) => updated.get(game.gameId) ?? game)
+        .filter((game) => !updated.has(game.gameId) || matchesFilter(deriveGameStatus(decodeGame(game), { now, gracePeriod }), filter)));
+    } catch (error) {
+      console.error('Error updating games:', error);
     }
-    if (filter === 'live') return game.active && !game.finalized && startTime > 0n;
-    if (filter === 'finished') return game.finalized || game.cancelled;
-    return true;
   });
 
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore || loading) return;
+    const key = viewKey;
+    setLoadingMore(true);
+    try {
+      const page = await fetchGamesPage({
+        ...lobbyViewQuery(view),
+        deployment: contract.id,
+        cursor: nextCursor,
+        limit: DEFAULT_PAGE_SIZE,
+      });
+      if (viewKeyRef.current !== key) return;
+      setGames((prev) => {
+        const merged = [...prev, ...page.games];
+        loadedCountRef.current = merged.length;
+        return merged;
+      });
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching more games:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [contract.id, loading, loadingMore, nextCursor, view, viewKey]);
+
+  // Infinite scroll: fetch the next page once the end of the grid comes near
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore();
+      },
+      { rootMargin: '600px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
+
   return (
     <div className="space-y-8">
       {/* Header Section - sleek futuristic */}
@@ -126,7 +194,7 @@ export default function GameLobby() {
           <h2 className="text-2xl sm:text-3xl font-bold text-white mb-1 font-sans tracking-tight">Join Games</h2>
           <p className="text-[var(--text-muted)] text-sm font-sans">Select a game to join or create a new one</p>
         </div>
-        {mounted && isConnected && (
+        {mounted && isConnected && contract.current && (
           <button
             type="button"
             onClick={() => setShowCreateModal(true)}
@@ -142,25 +210,8 @@ export default function GameLobby() {
       {showCreateModal && (
         <CreateGameModal 
           onClose={() => setShowCreateModal(false)} 
-          onSuccess={() => {
-            setShowCreateModal(false);
-            // Refresh games list after creating a new game
-            if (currentGameId) {
-              const fetchGames = async () => {
-                const maxGames = filter === 'finished' ? 50 : filter === 'all' ? 30 : 20;
-                const startId = Math.max(1, Number(currentGameId) - maxGames + 1);
-                const gamePromises: Promise<Game>[] = [];
-                for (let i = startId; i <= Number(currentGameId); i++) {
-                  gamePromises.push(
-                    fetch(`/api/game/${i}`).then(res => res.json()).catch(() => null)
-                  );
-                }
-                const results = await Promise.all(gamePromises);
-                setGames(results.filter(Boolean) as Game[]);
-              };
-              fetchGames();
-            }
-          }}
+          // The GameCreated event adds the new game to the list
+          onSuccess={() => setShowCreateModal(false)}
         />
       )}
 
@@ -181,53 +232,86 @@ export default function GameLobby() {
         <FilterButton variant="all" active={filter === 'all'} onClick={() => setFilter('all')}>
           All
         </FilterButton>
+        <div className="ml-auto flex items-center gap-2">
+          <select
+            value={view.sort}
+            onChange={(e) => setSort(e.target.value as GameListSort)}
+            aria-label="Sort games"
+            className="px-3 py-2 rounded-lg border border-white/10 bg-black/30 text-sm text-[var(--text-muted)] hover:border-[var(--neon-cyan)] transition-colors"
+          >
+            {GAME_LIST_SORTS.map((sort) => (
+              <option key={sort} value={sort}>
+                {GAME_LIST_SORT_LABELS[sort]}
+              </option>
+            ))}
+          </select>
+          {view.sort !== 'newest' && view.sort !== 'oldest' && (
+            <button
+              type="button"
+              onClick={() => updateView({ order: view.order === 'asc' ? 'desc' : 'asc' })}
+              aria-label={view.order === 'asc' ? 'Ascending, switch to descending' : 'Descending, switch to ascending'}
+              className="px-3 py-2 rounded-lg border border-white/10 bg-black/30 text-sm text-[var(--text-muted)] hover:border-[var(--neon-cyan)] transition-colors"
+            >
+              {view.order === 'asc' ? '↑' : '↓'}
+            </button>
+          )}
+        </div>
+        {deployment.contracts.length > 1 && (
+          <select
+            value={contract.id}
+            onChange={(e) => updateView({ deployment: e.target.value === deployment.contract.id ? null : e.target.value })}
+            aria-label="Contract deployment"
+            className="px-3 py-2 rounded-lg border border-white/10 bg-black/30 text-sm text-[var(--text-muted)] hover:border-[var(--neon-cyan)] transition-colors"
+          >
+            {deployment.contracts.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.current ? c.label : `${c.label} (archived)`}
+              </option>
+            ))}
+          </select>
+        )}
       </nav>
 
+      <LobbyFilters key={searchParams.toString()} view={view} onApply={updateView} />
+
       {/* Games Grid */}
-      {filteredGames.length === 0 ? (
+      {loading ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 justify-items-center" aria-busy>
+          {Array.from({ length: 6 }, (_, i) => <GameCardSkeleton key={i} />)}
+        </div>
+      ) : games.length === 0 ? (
         <div className="text-center py-16 text-[#9ca3af]">
           <p className="text-lg">No games found</p>
           <p className="text-sm mt-2">Check back later or create a new game</p>
         </div>
       ) : (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 justify-items-center">
-          {filteredGames.map((game) => {
-            const startTime = BigInt(game.startTime?.toString() || '0');
-            const entryFee = BigInt(game.entryFee?.toString() || '0');
-            const prizePool = BigInt(game.prizePool?.toString() || '0');
-            const deadline = Number(game.registrationDeadline?.toString() || '0');
-            const now = Math.floor(Date.now() / 1000);
-            const deadlinePassed = deadline > 0 && deadline < now;
-            
-            // Determine status
-            let status: GameStatus;
-            if (game.finalized) {
-              status = 'FINALIZED';
-            } else if (game.cancelled) {
-              status = 'CANCELLED';
-            } else if (startTime > 0n) {
-              status = 'LIVE';
-            } else if (deadlinePassed) {
-              status = 'READY_TO_START'; // Deadline passed but game hasn't started yet
-            } else {
-              status = 'REGISTRATION_OPEN';
-            }
-            
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 justify-items-center" aria-busy={loadingMore}>
+          {games.map((serialized) => {
+            const game = decodeGame(serialized);
+            const status = deriveGameStatus(game, { now, gracePeriod });
+
             return (
               <GameCard
                 key={Number(game.gameId)}
+                deploymentId={contract.id}
                 gameId={Number(game.gameId)}
-                entryFee={entryFee}
+                entryFee={game.entryFee}
                 playerCount={Number(game.playerCount)}
                 minPlayers={Number(game.minPlayers)}
-                deadline={deadline}
+                deadline={Number(game.registrationDeadline)}
                 status={status}
-                prizePool={prizePool}
+                prizePool={game.prizePool}
+                currentRound={Number(game.currentRound)}
+                totalRounds={Number(game.totalRounds)}
+                lastEventAt={lastEventAt[serialized.gameId]}
               />
             );
           })}
+          {loadingMore && Array.from({ length: 3 }, (_, i) => <GameCardSkeleton key={`skeleton-${i}`} />)}
         </div>
       )}
+
+      {!loading && nextCursor && <div ref={sentinelRef} className="h-px" aria-hidden />}
     </div>
   );
 }
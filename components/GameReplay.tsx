@@ -0,0 +1,139 @@
+'use client';
+
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatEther } from 'viem';
+import { useDeployment } from '@/hooks/useDeployment';
+import { fetchGameEvents } from '@/lib/events';
+import { buildReplay, REPLAY_EVENTS } from '@/lib/replay';
+import GameBoard from './GameBoard';
+import AddressLabel from './AddressLabel';
+
+interface GameReplayProps {
+  gameId: number;
+}
+
+/** Delay between steps while playing */
+const PLAY_INTERVAL_MS = 1200;
+
+/**
+ * Step through a finished game's events and watch the board change: ranks,
+ * gains, eliminations and who finalized each round.
+ */
+export default function GameReplay({ gameId }: GameReplayProps) {
+  const { contract } = useDeployment();
+  const [stepIndex, setStepIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const { data: steps, isLoading, error } = useQuery({
+    queryKey: ['gameReplay', contract.id, gameId],
+    queryFn: async () => {
+      const { events } = await fetchGameEvents(contract.id, gameId, [...REPLAY_EVENTS]);
+      return buildReplay(events);
+    },
+    // A finished game's history doesn't change
+    staleTime: Infinity,
+  });
+
+  const lastIndex = steps ? steps.length - 1 : 0;
+  const current = Math.min(stepIndex, lastIndex);
+  const step = steps?.[current];
+
+  useEffect(() => {
+    if (!playing) return;
+    const timeout = setTimeout(() => {
+      if (current >= lastIndex) setPlaying(false);
+      else setStepIndex(current + 1);
+    }, PLAY_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [playing, current, lastIndex]);
+
+  const latestFinalizations = useMemo(() => [...(step?.finalizations ?? [])].reverse(), [step]);
+
+  if (isLoading) {
+    return <div className="text-gray-400 text-sm">Loading replay...</div>;
+  }
+  if (error || !steps || steps.length === 0) {
+    return <div className="text-gray-400 text-sm">No event history available to replay this game.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setStepIndex(Math.max(0, current - 1))}
+          disabled={current === 0}
+          className="px-2 py-1 rounded border border-white/10 text-sm text-white disabled:opacity-40"
+          aria-label="Previous step"
+        >
+          ◀
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            if (current >= lastIndex) setStepIndex(0);
+            setPlaying(!playing);
+          }}
+          className="px-3 py-1 rounded border border-white/10 text-sm text-white min-w-[64px]"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setStepIndex(Math.min(lastIndex, current + 1))}
+          disabled={current >= lastIndex}
+          className="px-2 py-1 rounded border border-white/10 text-sm text-white disabled:opacity-40"
+          aria-label="Next step"
+        >
+          ▶
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={lastIndex}
+          value={current}
+          onChange={(e) => {
+            setPlaying(false);
+            setStepIndex(Number(e.target.value));
+          }}
+          className="flex-1"
+          aria-label="Replay timeline"
+        />
+        <span className="text-xs text-gray-400 whitespace-nowrap">
+          {current + 1} / {steps.length}
+        </span>
+      </div>
+
+      <div className="text-sm text-white/85">
+        {step!.round > 0 && <span className="text-[var(--neon-cyan)] mr-2">Round {step!.round}</span>}
+        {step!.label.map((part, i) => (
+          <Fragment key={i}>{typeof part === 'string' ? part : <AddressLabel address={part.address} />}</Fragment>
+        ))}
+      </div>
+
+      <GameBoard gameId={gameId} players={step!.players} live={false} />
+
+      {latestFinalizations.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {latestFinalizations.map((finalization) => (
+            <li key={finalization.round} className="flex justify-between gap-2 text-gray-300">
+              <span>
+                Round {finalization.round}: {finalization.survivors} survivor{finalization.survivors === 1 ? '' : 's'}
+              </span>
+              <span className="font-mono text-gray-400">
+                {finalization.finalizer ? (
+                  <>
+                    <AddressLabel address={finalization.finalizer} /> earned {formatEther(finalization.reward ?? 0n)} ETH
+                  </>
+                ) : (
+                  'No finalizer reward'
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatEther } from 'viem';
+import PlayerLink from './PlayerLink';
+import { useDeployment } from '@/hooks/useDeployment';
+import {
+  fetchLeaderboard,
+  LEADERBOARD_SORT_LABELS,
+  LEADERBOARD_SORTS,
+  LEADERBOARD_WINDOW_LABELS,
+  LEADERBOARD_WINDOWS,
+  leaderboardScore,
+  LeaderboardSort,
+  LeaderboardWindow,
+} from '@/lib/leaderboardApi';
+
+/** Rows shown; the API returns every wallet */
+const MAX_ROWS = 100;
+
+function parseGameIds(input: string): number[] | null {
+  const parts = input.split(/[\s,]+/).filter(Boolean);
+  if (parts.length === 0 || parts.some((part) => !/^\d+$/.test(part))) return null;
+  return [...new Set(parts.map(Number))].sort((a, b) => a - b);
+}
+
+function formatETH(wei: string, signed = false): string {
+  const value = BigInt(wei);
+  const text = Number(formatEther(value < 0n ? -value : value)).toFixed(4);
+  return signed ? `${value < 0n ? '-' : '+'}${text}` : text;
+}
+
+/**
+ * All-time (or windowed) rankings across every game on a deployment, built
+ * from the indexed PrizePaid and PlayerRegistered history.
+ */
+export default function Leaderboard() {
+  const { deployment } = useDeployment();
+  const [contractId, setContractId] = useState<string | null>(null);
+  const contract = deployment.contracts.find((c) => c.id === contractId) ?? deployment.contract;
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all');
+  const [gamesInput, setGamesInput] = useState('');
+  const [gameIds, setGameIds] = useState<number[]>([]);
+  const [sort, setSort] = useState<LeaderboardSort>('prize');
+
+  const waitingForGames = timeWindow === 'games' && gameIds.length === 0;
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['leaderboard', contract.id, timeWindow, timeWindow === 'games' ? gameIds.join(',') : ''],
+    queryFn: () => fetchLeaderboard({ deployment: contract.id, window: timeWindow, gameIds: timeWindow === 'games' ? gameIds : undefined }),
+    enabled: !waitingForGames,
+    staleTime: 60_000,
+  });
+
+  const rows = useMemo(
+    () => [...(data?.entries ?? [])]
+      .sort((a, b) => leaderboardScore(b, sort) - leaderboardScore(a, sort) || b.games - a.games)
+      .slice(0, MAX_ROWS),
+    [data, sort]
+  );
+
+  const parsedGames = parseGameIds(gamesInput);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3 flex-wrap">
+        {LEADERBOARD_WINDOWS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setTimeWindow(option)}
+            aria-pressed={timeWindow === option}
+            className={`px-4 py-2 rounded-lg border text-sm transition-colors ${
+              timeWindow === option
+                ? 'border-[var(--neon-cyan)] text-white bg-[var(--neon-blue)]/10'
+                : 'border-white/10 text-[var(--text-muted)] hover:text-white'
+            }`}
+          >
+            {LEADERBOARD_WINDOW_LABELS[option]}
+          </button>
+        ))}
+        {deployment.contracts.length > 1 && (
+          <select
+            value={contract.id}
+            onChange={(e) => setContractId(e.target.value)}
+            aria-label="Contract deployment"
+            className="ml-auto px-3 py-2 rounded-lg border border-white/10 bg-black/30 text-sm text-[var(--text-muted)]"
+          >
+            {deployment.contracts.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.current ? c.label : `${c.label} (archived)`}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {timeWindow === 'games' && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (parsedGames) setGameIds(parsedGames);
+          }}
+          className="flex items-center gap-2"
+        >
+          <input
+            value={gamesInput}
+            onChange={(e) => setGamesInput(e.target.value)}
+            placeholder="Game ids, e.g. 3, 7, 12"
+            aria-label="Game ids"
+            className="flex-1 max-w-sm px-3 py-2 rounded-lg border border-white/10 bg-black/30 text-sm text-white placeholder:text-gray-500 focus:outline-none focus:border-[var(--neon-cyan)]"
+          />
+          <button
+            type="submit"
+            disabled={!parsedGames}
+            className="px-4 py-2 rounded-lg border border-white/10 text-sm text-white hover:border-[var(--neon-cyan)] transition-colors disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </form>
+      )}
+
+      {data && !data.caughtUp && <p className="text-xs text-gray-500">Still indexing older blocks; totals may be incomplete.</p>}
+      {data && <p className="text-xs text-gray-500">{data.gameIds.length} game{data.gameIds.length === 1 ? '' : 's'} · {data.entries.length} wallets</p>}
+
+      {waitingForGames ? (
+        <p className="text-center py-12 text-gray-400">Enter the game ids to rank.</p>
+      ) : error ? (
+        <p className="text-center py-12 text-red-400">Couldn&apos;t load the leaderboard.</p>
+      ) : isLoading ? (
+        <div className="arena-panel rounded-lg h-64 animate-pulse" aria-busy />
+      ) : rows.length === 0 ? (
+        <p className="text-center py-12 text-gray-400">No players in this window yet.</p>
+      ) : (
+        <div className="arena-panel rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-white/10 text-xs uppercase tracking-wider text-gray-400">
+                <th className="py-3 px-4 text-left">#</th>
+                <th className="py-3 px-4 text-left">Player</th>
+                <th className="py-3 px-4 text-right">Games</th>
+                {LEADERBOARD_SORTS.map((column) => (
+                  <th key={column} className="py-3 px-4 text-right" aria-sort={sort === column ? 'descending' : undefined}>
+                    <button
+                      type="button"
+                      onClick={() => setSort(column)}
+                      className={`uppercase tracking-wider ${sort === column ? 'text-[var(--neon-cyan)]' : 'hover:text-white'}`}
+                    >
+                      {LEADERBOARD_SORT_LABELS[column]}{sort === column ? ' ↓' : ''}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((entry, index) => (
+                <tr key={entry.address} className="border-b border-white/5 hover:bg-white/5 tabular-nums">
+                  <td className="py-3 px-4 text-gray-400">{index + 1}</td>
+                  <td className="py-3 px-4 font-mono text-gray-300">
+                    <PlayerLink address={entry.address} />
+                  </td>
+                  <td className="py-3 px-4 text-right text-gray-300">{entry.games}</td>
+                  <td className="py-3 px-4 text-right text-[var(--accent-green)]">{formatETH(entry.prize)}</td>
+                  <td className="py-3 px-4 text-right text-gray-300" title="1st / 2nd / 3rd">
+                    <span className="text-[#fbbf24]">{entry.first}</span> / {entry.second} / <span className="text-amber-600">{entry.third}</span>
+                  </td>
+                  <td className="py-3 px-4 text-right text-gray-300" title={`${entry.finished} finished game${entry.finished === 1 ? '' : 's'}`}>
+                    {entry.avgPercentile === null ? '—' : `${entry.avgPercentile.toFixed(0)}%`}
+                  </td>
+                  <td
+                    className={`py-3 px-4 text-right ${entry.avgRoundGain === null ? 'text-gray-500' : entry.avgRoundGain >= 0 ? 'text-green-400' : 'text-red-400'}`}
+                    title={`${entry.rounds} round${entry.rounds === 1 ? '' : 's'}`}
+                  >
+                    {entry.avgRoundGain === null ? '—' : `${entry.avgRoundGain >= 0 ? '+' : ''}${entry.avgRoundGain.toFixed(2)}%`}
+                  </td>
+                  <td
+                    className={`py-3 px-4 text-right ${BigInt(entry.net) >= 0n ? 'text-green-400' : 'text-red-400'}`}
+                    title={`Prizes ${formatETH(entry.prize)} + refunds ${formatETH(entry.refunds)} + rewards ${formatETH(entry.rewards)} - entry fees ${formatETH(entry.entryFees)} ETH`}
+                  >
+                    {formatETH(entry.net, true)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { DEFAULT_LOBBY_VIEW, isValidSearch, LobbyView } from '@/lib/lobbyView';
+
+type FilterFields = Pick<LobbyView, 'search' | 'minEntryFee' | 'maxEntryFee' | 'minRoundMinutes' | 'maxRoundMinutes'>;
+
+interface LobbyFiltersProps {
+  view: LobbyView;
+  onApply: (fields: FilterFields) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg border border-white/10 bg-black/30 text-sm text-white placeholder:text-gray-500 focus:outline-none focus:border-[var(--neon-cyan)]';
+
+/**
+ * Search and range filters for the lobby. Edits are local until applied, so
+ * typing doesn't refetch; remount (key on the URL) to pick up outside changes.
+ */
+export default function LobbyFilters({ view, onApply }: LobbyFiltersProps) {
+  const [fields, setFields] = useState<FilterFields>({
+    search: view.search,
+    minEntryFee: view.minEntryFee,
+    maxEntryFee: view.maxEntryFee,
+    minRoundMinutes: view.minRoundMinutes,
+    maxRoundMinutes: view.maxRoundMinutes,
+  });
+  const searchValid = isValidSearch(fields.search.trim());
+  const hasFilters = Object.values(fields).some(Boolean);
+
+  const set = (field: keyof FilterFields) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setFields((current) => ({ ...current, [field]: e.target.value }));
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchValid) return;
+    onApply({ ...fields, search: fields.search.trim() });
+  };
+
+  const clear = () => {
+    const cleared: FilterFields = {
+      search: DEFAULT_LOBBY_VIEW.search,
+      minEntryFee: DEFAULT_LOBBY_VIEW.minEntryFee,
+      maxEntryFee: DEFAULT_LOBBY_VIEW.maxEntryFee,
+      minRoundMinutes: DEFAULT_LOBBY_VIEW.minRoundMinutes,
+      maxRoundMinutes: DEFAULT_LOBBY_VIEW.maxRoundMinutes,
+    };
+    setFields(cleared);
+    onApply(cleared);
+  };
+
+  return (
+    <form onSubmit={submit} className="grid grid-cols-2 lg:grid-cols-6 gap-3 items-end text-xs text-[var(--text-muted)]">
+      <label className="col-span-2 space-y-1">
+        <span>Game id or creator</span>
+        <input
+          value={fields.search}
+          onChange={set('search')}
+          placeholder="42 or 0x…"
+          aria-invalid={!searchValid}
+          className={`${inputClass} ${searchValid ? '' : 'border-red-500/60'}`}
+        />
+      </label>
+      <label className="space-y-1">
+        <span>Min entry (ETH)</span>
+        <input type="number" min="0" step="any" value={fields.minEntryFee} onChange={set('minEntryFee')} className={inputClass} />
+      </label>
+      <label className="space-y-1">
+        <span>Max entry (ETH)</span>
+        <input type="number" min="0" step="any" value={fields.maxEntryFee} onChange={set('maxEntryFee')} className={inputClass} />
+      </label>
+      <label className="space-y-1">
+        <span>Min round (min)</span>
+        <input type="number" min="0" step="any" value={fields.minRoundMinutes} onChange={set('minRoundMinutes')} className={inputClass} />
+      </label>
+      <label className="space-y-1">
+        <span>Max round (min)</span>
+        <input type="number" min="0" step="any" value={fields.maxRoundMinutes} onChange={set('maxRoundMinutes')} className={inputClass} />
+      </label>
+      <div className="col-span-2 lg:col-span-6 flex gap-2 justify-end">
+        {!searchValid && <span className="mr-auto self-center text-red-400">Enter a game id or an address starting with 0x</span>}
+        {hasFilters && (
+          <button
+            type="button"
+            onClick={clear}
+            className="px-4 py-2 rounded-lg border border-white/10 hover:text-white transition-colors"
+          >
+            Clear
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!searchValid}
+          className="px-4 py-2 rounded-lg border border-white/10 text-white hover:border-[var(--neon-cyan)] transition-colors disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+    </form>
+  );
+}
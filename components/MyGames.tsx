@@ -0,0 +1,175 @@
+'use client';
+
+import Link from 'next/link';
+import { useAccount } from 'wagmi';
+import { Address, formatEther } from 'viem';
+import { decodeGame } from '@/lib/decoders';
+import { GAME_STATUS_LABELS } from '@/lib/gameStatus';
+import { PlayerGameEntry, totalRewards } from '@/lib/playerGamesApi';
+import { ContractDeploymentContext } from '@/hooks/useDeployment';
+import { PlayerGame, usePlayerGames } from '@/hooks/usePlayerGames';
+import { useRoundStandings } from '@/hooks/useRoundStandings';
+import { useNow } from '@/hooks/useNow';
+
+/** A live round this close to its end is flagged so the player can check their position */
+const ROUND_ENDING_SECONDS = 10 * 60;
+
+const PLACE_LABELS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd' };
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+/** What, if anything, the game is waiting on the player for */
+function actionFor(entry: PlayerGameEntry, now: number): string | null {
+  switch (entry.status) {
+    case 'READY_TO_START':
+      return 'Ready to start: anyone can start it and earn the start reward';
+    case 'AWAITING_FINALIZATION':
+      return 'Round over: finalize it to earn the finalization reward';
+    case 'CANCELLABLE':
+      return 'Underfilled past the grace period: cancel it to refund everyone';
+    case 'LIVE': {
+      if (entry.roundEndTime === null) return null;
+      const remaining = entry.roundEndTime - now;
+      // The status is from the last fetch; the round may have ended since
+      if (remaining <= 0) return 'Round over: finalize it to earn the finalization reward';
+      return entry.alive && remaining <= ROUND_ENDING_SECONDS
+        ? `Round ${entry.game.currentRound} ends in ${formatCountdown(remaining)}`
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** Live rank from the projected standings; only loaded for running games the player is still in */
+function LiveRank({ gameId, round, address }: { gameId: number; round: number; address: Address }) {
+  const { standings, isLoading } = useRoundStandings(gameId, round, true);
+  if (isLoading) return <span className="text-gray-500">…</span>;
+  const standing = standings?.standings.find((entry) => entry.address.toLowerCase() === address.toLowerCase());
+  if (!standing) return <span className="text-gray-500">—</span>;
+  return (
+    <span className={standing.eliminated ? 'text-red-400' : 'text-white'}>
+      #{standing.rank}
+      {standing.eliminated && <span className="ml-1 text-xs">danger zone</span>}
+    </span>
+  );
+}
+
+function MyGameRow({ entry, address, action }: { entry: PlayerGame; address: Address; action: string | null }) {
+  const game = decodeGame(entry.game);
+  const gameId = Number(game.gameId);
+  const running = entry.status === 'LIVE' || entry.status === 'AWAITING_FINALIZATION';
+
+  let outcome: React.ReactNode;
+  if (entry.place !== null && entry.prize !== null) {
+    outcome = <span className="text-[var(--accent-green)]">{PLACE_LABELS[entry.place] ?? `#${entry.place}`} · won {formatEther(BigInt(entry.prize))} ETH</span>;
+  } else if (entry.refund !== null) {
+    outcome = <span className="text-gray-300">Refunded {formatEther(BigInt(entry.refund))} ETH</span>;
+  } else if (!entry.alive && entry.eliminationRound > 0) {
+    outcome = (
+      <span className="text-red-400">
+        Eliminated in round {entry.eliminationRound}
+        {entry.eliminationReason && <span className="text-gray-500"> · {entry.eliminationReason}</span>}
+      </span>
+    );
+  } else if (running) {
+    outcome = (
+      <span className="text-gray-300">
+        Alive · rank{' '}
+        <ContractDeploymentContext.Provider value={entry.contract}>
+          <LiveRank gameId={gameId} round={Number(game.currentRound)} address={address} />
+        </ContractDeploymentContext.Provider>
+      </span>
+    );
+  } else {
+    outcome = <span className="text-gray-400">Registered · square #{entry.squareIndex + 1}</span>;
+  }
+
+  return (
+    <Link
+      href={`/game/${entry.contract.id}/${gameId}`}
+      className={`block arena-panel rounded-lg p-4 transition-colors hover:border-[var(--neon-cyan)] ${
+        action ? 'border-[var(--accent-green)]/60' : ''
+      }`}
+    >
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-3">
+          <span className="font-semibold text-white">Game #{gameId}</span>
+          {!entry.contract.current && <span className="text-xs text-gray-500">{entry.contract.label} (archived)</span>}
+          <span className="game-status-badge !bg-white/10 !border-white/20 text-white/80">{GAME_STATUS_LABELS[entry.status]}</span>
+        </div>
+        <div className="text-sm">{outcome}</div>
+      </div>
+      <div className="mt-2 flex items-center justify-between gap-4 flex-wrap text-xs text-gray-400">
+        <span>
+          Entry {formatEther(game.entryFee)} ETH · pool {formatEther(game.prizePool)} ETH · round {Number(game.currentRound)}/{Number(game.totalRounds)}
+        </span>
+        {totalRewards(entry.rewards) > 0n && <span>Rewards earned: {formatEther(totalRewards(entry.rewards))} ETH</span>}
+      </div>
+      {action && <div className="mt-2 text-sm text-[var(--accent-green)]">{action}</div>}
+    </Link>
+  );
+}
+
+/**
+ * Every game the connected wallet registered in, across the chain's
+ * deployments. Games waiting on the player are listed first.
+ */
+export default function MyGames() {
+  const { address, isConnected, isReconnecting } = useAccount();
+  const { games, isLoading, failed, catchingUp } = usePlayerGames(address);
+  const now = useNow();
+
+  if (isReconnecting) {
+    return <div className="arena-panel rounded-lg h-20 animate-pulse" aria-busy />;
+  }
+  if (!isConnected || !address) {
+    return <p className="text-center py-16 text-gray-400">Connect a wallet to see the games you&apos;ve joined.</p>;
+  }
+
+  const withActions = games.map((entry) => ({ entry, action: actionFor(entry, now) }));
+  const needsAction = withActions.filter(({ action }) => action);
+  const rest = withActions.filter(({ action }) => !action);
+
+  return (
+    <div className="space-y-8">
+      {catchingUp && <p className="text-xs text-gray-500">Still indexing older blocks; some games may be missing.</p>}
+      {failed && <p className="text-sm text-red-400">Couldn&apos;t load every deployment. Retrying…</p>}
+
+      {isLoading && games.length === 0 ? (
+        <div className="space-y-3" aria-busy>
+          {Array.from({ length: 3 }, (_, i) => (
+            <div key={i} className="arena-panel rounded-lg h-20 animate-pulse" />
+          ))}
+        </div>
+      ) : games.length === 0 ? (
+        <div className="text-center py-16 text-gray-400">
+          <p className="text-lg">You haven&apos;t joined any games yet</p>
+          <Link href="/" className="text-sm mt-2 inline-block text-[var(--neon-cyan)] hover:underline">Browse open games</Link>
+        </div>
+      ) : (
+        <>
+          {needsAction.length > 0 && (
+            <section className="space-y-3">
+              <h2 className="text-sm uppercase tracking-wider text-[var(--accent-green)]">Needs your attention</h2>
+              {needsAction.map(({ entry, action }) => (
+                <MyGameRow key={`${entry.contract.id}:${entry.game.gameId}`} entry={entry} address={address} action={action} />
+              ))}
+            </section>
+          )}
+          {rest.length > 0 && (
+            <section className="space-y-3">
+              <h2 className="text-sm uppercase tracking-wider text-gray-400">All games</h2>
+              {rest.map(({ entry }) => (
+                <MyGameRow key={`${entry.contract.id}:${entry.game.gameId}`} entry={entry} address={address} action={null} />
+              ))}
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { formatEther, parseUnits } from 'viem';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useRoundStandings } from '@/hooks/useRoundStandings';
+import { useScoringMode } from '@/hooks/useScoringMode';
+import { useSwapQuote } from '@/hooks/useSwapQuote';
+import { computeRoundStandings, survivalTarget, withBalanceChange } from '@/lib/roundStandings';
+import { ethScoringMode } from '@/lib/scoring';
+import { isNativeETH, Token } from '@/lib/uniswap';
+
+interface MyPositionProps {
+  gameId: number;
+  roundNumber: number;
+}
+
+function formatEth(wei: bigint): string {
+  return `${parseFloat(formatEther(wei)).toFixed(4)} ETH`;
+}
+
+function parseAmount(value: string, token: Token): bigint | undefined {
+  try {
+    const amount = parseUnits(value || '0', token.decimals);
+    return amount > 0n ? amount : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * "How much do I need to survive": the connected player's rank in the
+ * current round, the ETH gain to clear the cut and to catch first place, and
+ * where a swap would leave them. Only native ETH counts toward the score, so
+ * a swap out of ETH lowers it and a swap into ETH raises it.
+ */
+export default function MyPosition({ gameId, roundNumber }: MyPositionProps) {
+  const { address } = useAccount();
+  const { deployment } = useDeployment();
+  const mode = ethScoringMode(useScoringMode().mode);
+  const { standings, round, players } = useRoundStandings(gameId, roundNumber, !!address, true);
+
+  const tokens = deployment.tokens;
+  const [tokenIn, setTokenIn] = useState<Token>(tokens[0]);
+  const [tokenOut, setTokenOut] = useState<Token>(tokens[2] ?? tokens[1]);
+  const [amount, setAmount] = useState('');
+  const amountIn = parseAmount(amount, tokenIn);
+  const { quoteAmount, isLoading: quoting, error: quoteError } = useSwapQuote({ tokenIn, tokenOut, amountIn });
+
+  const target = useMemo(
+    () => (standings && players && address ? survivalTarget(standings, players, address, mode) : null),
+    [standings, players, address, mode]
+  );
+
+  const deltaETH = amountIn !== undefined && quoteAmount !== undefined
+    ? (isNativeETH(tokenOut) ? quoteAmount : 0n) - (isNativeETH(tokenIn) ? amountIn : 0n)
+    : undefined;
+
+  const whatIf = useMemo(() => {
+    if (!round || !players || !address || deltaETH === undefined) return null;
+    const changed = withBalanceChange(players, address, deltaETH);
+    return survivalTarget(computeRoundStandings(changed, round, mode), changed, address, mode);
+  }, [round, players, address, deltaETH, mode]);
+
+  if (!address || !target) return null;
+
+  return (
+    <div className="arena-panel p-3 space-y-3">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-[var(--neon-cyan)]">My Position</span>
+        <span className="text-gray-400">Round {roundNumber}</span>
+      </div>
+
+      <div>
+        <div className="text-lg font-semibold text-white">
+          #{target.rank}
+          <span className={`ml-2 text-sm ${target.safe ? 'text-[var(--accent-green)]' : 'text-[var(--neon-pink)]'}`}>
+            {target.safe ? 'Safe' : 'Below the cut'}
+          </span>
+        </div>
+        {target.safe ? (
+          target.marginETH !== null && (
+            <div className="text-xs text-gray-400">Can lose up to {formatEth(target.marginETH)} and stay above the cut</div>
+          )
+        ) : (
+          <div className="text-xs text-white/85">
+            Need +{formatEth(target.neededETH)} (+{target.neededPercent.toFixed(2)}%) to reach safety
+          </div>
+        )}
+        {target.gapToFirstETH > 0n && (
+          <div className="text-xs text-gray-400">+{formatEth(target.gapToFirstETH)} to match first place</div>
+        )}
+      </div>
+
+      <div className="pt-2 border-t border-white/10 space-y-2">
+        <div className="text-xs text-gray-400">What if I swap…</div>
+        <div className="flex gap-1 text-xs">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.0"
+            className="w-20 min-w-0 rounded bg-black/40 border border-white/10 px-2 py-1 text-white"
+          />
+          <select
+            value={tokenIn.symbol}
+            onChange={(e) => setTokenIn(tokens.find((token) => token.symbol === e.target.value) ?? tokens[0])}
+            className="rounded bg-black/40 border border-white/10 px-1 text-white"
+          >
+            {tokens.map((token) => <option key={token.symbol} value={token.symbol}>{token.symbol}</option>)}
+          </select>
+          <span className="self-center text-gray-500">→</span>
+          <select
+            value={tokenOut.symbol}
+            onChange={(e) => setTokenOut(tokens.find((token) => token.symbol === e.target.value) ?? tokens[0])}
+            className="rounded bg-black/40 border border-white/10 px-1 text-white"
+          >
+            {tokens.map((token) => <option key={token.symbol} value={token.symbol}>{token.symbol}</option>)}
+          </select>
+        </div>
+        {amountIn !== undefined && (
+          quoting ? (
+            <div className="text-xs text-gray-400">Quoting…</div>
+          ) : quoteError ? (
+            <div className="text-xs text-red-300">{quoteError}</div>
+          ) : whatIf && deltaETH !== undefined && (
+            <div className="text-xs text-white/85">
+              Score {deltaETH >= 0n ? '+' : '-'}{formatEth(deltaETH >= 0n ? deltaETH : -deltaETH)} → #{whatIf.rank}{' '}
+              <span className={whatIf.safe ? 'text-[var(--accent-green)]' : 'text-[var(--neon-pink)]'}>
+                {whatIf.safe ? 'safe' : `needs +${formatEth(whatIf.neededETH)}`}
+              </span>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useName } from '@/hooks/useName';
+import { buildPerformanceSeries, PlayerSeries, SnapshotSeries } from '@/lib/performance';
+import { shortenAddress } from '@/lib/namesApi';
+import AddressLabel from './AddressLabel';
+
+interface PerformanceChartProps {
+  snapshots: Map<string, SnapshotSeries>;
+  roundEndSnapshots: Map<string, SnapshotSeries>;
+  /** Player address to the round they were eliminated in */
+  eliminatedRounds: Map<string, number>;
+  /** Round number to the contract's cutoffRank */
+  cutoffRanks: Map<number, number>;
+  maxRound: number;
+}
+
+const WIDTH = 800;
+const HEIGHT = 320;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 56 };
+
+const COLORS = ['#22d3ee', '#a78bfa', '#f472b6', '#facc15', '#4ade80', '#fb923c', '#60a5fa', '#f87171', '#2dd4bf', '#e879f9'];
+
+function colorFor(index: number): string {
+  return COLORS[index % COLORS.length];
+}
+
+/** One player's line, points and elimination cross; tooltips name the player once resolved */
+function SeriesLine({
+  player,
+  color,
+  x,
+  y,
+}: {
+  player: PlayerSeries;
+  color: string;
+  x: (round: number) => number;
+  y: (gain: number) => number;
+}) {
+  const resolved = useName(player.address);
+  const name = resolved?.name ?? shortenAddress(player.address);
+  const path = player.points.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.round)},${y(point.gainPercent)}`).join(' ');
+  const last = player.points[player.points.length - 1];
+  return (
+    <g>
+      <path d={path} fill="none" stroke={color} strokeWidth="2" opacity={player.eliminatedRound ? 0.6 : 1} />
+      {player.points.map((point) => (
+        <circle key={point.round} cx={x(point.round)} cy={y(point.gainPercent)} r="3" fill={color}>
+          <title>{`${name} · ${point.round === 0 ? 'Start' : `Round ${point.round}`}: ${point.gainPercent.toFixed(2)}%`}</title>
+        </circle>
+      ))}
+      {player.eliminatedRound !== null && (
+        <g stroke="#ef4444" strokeWidth="2">
+          <line x1={x(last.round) - 5} y1={y(last.gainPercent) - 5} x2={x(last.round) + 5} y2={y(last.gainPercent) + 5} />
+          <line x1={x(last.round) - 5} y1={y(last.gainPercent) + 5} x2={x(last.round) + 5} y2={y(last.gainPercent) - 5} />
+          <title>{`${name} eliminated in round ${player.eliminatedRound}`}</title>
+        </g>
+      )}
+    </g>
+  );
+}
+
+/**
+ * Cumulative gain % per round for every player, drawn as inline SVG. Crosses
+ * mark eliminations and red dashes the gain of the last survivor of each
+ * round. Players can be toggled from the legend.
+ */
+export default function PerformanceChart({
+  snapshots,
+  roundEndSnapshots,
+  eliminatedRounds,
+  cutoffRanks,
+  maxRound,
+}: PerformanceChartProps) {
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const { series, cuts } = useMemo(
+    () => buildPerformanceSeries(snapshots, roundEndSnapshots, eliminatedRounds, cutoffRanks),
+    [snapshots, roundEndSnapshots, eliminatedRounds, cutoffRanks]
+  );
+
+  const visible = series.filter((player) => !hidden.has(player.address));
+  const values = [0, ...visible.flatMap((player) => player.points.map((point) => point.gainPercent)), ...cuts.map((cut) => cut.gainPercent)];
+  const rawMin = Math.min(...values);
+  const rawMax = Math.max(...values);
+  const span = rawMax - rawMin || 1;
+  const minY = rawMin - span * 0.1;
+  const maxY = rawMax + span * 0.1;
+  const rounds = Math.max(maxRound, 1);
+
+  const x = (round: number) => PADDING.left + (round / rounds) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (gain: number) => PADDING.top + ((maxY - gain) / (maxY - minY)) * (HEIGHT - PADDING.top - PADDING.bottom);
+  const yTicks = Array.from({ length: 5 }, (_, i) => minY + ((maxY - minY) * i) / 4);
+
+  const toggle = (address: string) => {
+    setHidden((current) => {
+      const next = new Set(current);
+      if (next.has(address)) next.delete(address);
+      else next.add(address);
+      return next;
+    });
+  };
+
+  if (series.every((player) => player.points.length < 2)) {
+    return <div className="text-gray-400 text-sm">Not enough finished rounds to chart yet.</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Player gain per round">
+        {yTicks.map((tick) => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="rgba(255,255,255,0.08)" />
+            <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#9ca3af">
+              {tick >= 0 ? '+' : ''}{tick.toFixed(1)}%
+            </text>
+          </g>
+        ))}
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} stroke="rgba(255,255,255,0.3)" />
+        {Array.from({ length: rounds + 1 }, (_, round) => (
+          <text key={round} x={x(round)} y={HEIGHT - 10} textAnchor="middle" fontSize="11" fill="#9ca3af">
+            {round === 0 ? 'Start' : `R${round}`}
+          </text>
+        ))}
+
+        {cuts.map((cut) => (
+          <g key={cut.round}>
+            <line
+              x1={x(cut.round) - 14}
+              x2={x(cut.round) + 14}
+              y1={y(cut.gainPercent)}
+              y2={y(cut.gainPercent)}
+              stroke="#ef4444"
+              strokeWidth="2"
+              strokeDasharray="4 3"
+            />
+            <title>{`Round ${cut.round} cut: top ${cut.cutoffRank} survived (last survivor ${cut.roundGainPercent.toFixed(2)}% in the round)`}</title>
+          </g>
+        ))}
+
+        {series.map((player, index) =>
+          hidden.has(player.address) || player.points.length === 0 ? null : (
+            <SeriesLine key={player.address} player={player} color={colorFor(index)} x={x} y={y} />
+          )
+        )}
+      </svg>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {series.map((player, index) => (
+          <button
+            key={player.address}
+            type="button"
+            onClick={() => toggle(player.address)}
+            aria-pressed={!hidden.has(player.address)}
+            className={`flex items-center gap-1.5 rounded px-2 py-1 border border-white/10 font-mono transition-opacity ${
+              hidden.has(player.address) ? 'opacity-40' : ''
+            }`}
+          >
+            <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: colorFor(index) }} />
+            <AddressLabel address={player.address} hoverCard={false} />
+            {player.eliminatedRound !== null && <span className="text-red-400">✕R{player.eliminatedRound}</span>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
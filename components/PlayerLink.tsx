@@ -0,0 +1,16 @@
+'use client';
+
+import { Address } from 'viem';
+import AddressLabel from './AddressLabel';
+
+interface PlayerLinkProps {
+  address: Address | string;
+  /** Show the full address instead of 0x1234...abcd when there's no name */
+  full?: boolean;
+  className?: string;
+}
+
+/** An address (or its name) linking to its /player profile */
+export default function PlayerLink({ address, full = false, className = '' }: PlayerLinkProps) {
+  return <AddressLabel address={address} href={`/player/${address}`} full={full} className={className} />;
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import Link from 'next/link';
+import { Address, formatEther } from 'viem';
+import { GAME_STATUS_LABELS } from '@/lib/gameStatus';
+import { totalRewards } from '@/lib/playerGamesApi';
+import { summarizePlayerGames } from '@/lib/playerProfile';
+import { PlayerGame, usePlayerGames } from '@/hooks/usePlayerGames';
+import AddressLabel from './AddressLabel';
+
+const PLACE_LABELS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd' };
+
+function formatETH(wei: bigint, signed = false): string {
+  const value = Number(formatEther(wei < 0n ? -wei : wei)).toFixed(4);
+  if (!signed) return `${value} ETH`;
+  return `${wei < 0n ? '-' : '+'}${value} ETH`;
+}
+
+function Stat({ label, value, className = 'text-white' }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="arena-panel rounded-lg p-4">
+      <div className="text-xs uppercase tracking-wider text-gray-400">{label}</div>
+      <div className={`mt-1 text-lg font-semibold tabular-nums ${className}`}>{value}</div>
+    </div>
+  );
+}
+
+function resultOf(entry: PlayerGame): React.ReactNode {
+  if (entry.place !== null) {
+    return <span className="text-[var(--accent-green)]">{PLACE_LABELS[entry.place] ?? `#${entry.place}`}</span>;
+  }
+  if (entry.refund !== null) return <span className="text-gray-400">Cancelled</span>;
+  if (!entry.alive && entry.eliminationRound > 0) {
+    return (
+      <span className="text-red-400" title={entry.eliminationReason || undefined}>
+        Out in round {entry.eliminationRound}
+        {entry.eliminationReason && <span className="block text-xs text-gray-500 truncate max-w-[220px]">{entry.eliminationReason}</span>}
+      </span>
+    );
+  }
+  return <span className="text-gray-300">{entry.game.finalized ? 'Survived' : 'Alive'}</span>;
+}
+
+/**
+ * A wallet's history: every game it registered in with what it paid, won
+ * and earned, plus lifetime totals.
+ */
+export default function PlayerProfile({ address }: { address: Address }) {
+  const { games, isLoading, failed, catchingUp } = usePlayerGames(address);
+  const totals = summarizePlayerGames(games);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-sm uppercase tracking-wider text-gray-400">Player</h2>
+        <p className="mt-1 font-mono text-white break-all">
+          <AddressLabel address={address} full />
+        </p>
+      </div>
+
+      {catchingUp && <p className="text-xs text-gray-500">Still indexing older blocks; some games may be missing.</p>}
+      {failed && <p className="text-sm text-red-400">Couldn&apos;t load every deployment. Retrying…</p>}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <Stat label="Games" value={`${totals.played}`} />
+        <Stat
+          label="Win rate"
+          value={totals.winRate === null ? '—' : `${(totals.winRate * 100).toFixed(0)}% (${totals.wins}/${totals.finished})`}
+        />
+        <Stat label="Podiums" value={`${totals.podiums}`} />
+        <Stat
+          label="Net P&L"
+          value={formatETH(totals.net, true)}
+          className={totals.net >= 0n ? 'text-green-400' : 'text-red-400'}
+        />
+        <Stat label="Entry fees" value={formatETH(totals.entryFees)} />
+        <Stat label="Prizes" value={formatETH(totals.prizes)} />
+        <Stat label="Rewards & refunds" value={formatETH(totals.rewards + totals.refunds)} />
+        <Stat label="Penalties" value={formatETH(totals.penaltyETH)} className={totals.penaltyETH > 0n ? 'text-red-300' : 'text-white'} />
+      </div>
+
+      {isLoading && games.length === 0 ? (
+        <div className="arena-panel rounded-lg h-40 animate-pulse" aria-busy />
+      ) : games.length === 0 ? (
+        <p className="text-center py-12 text-gray-400">This address hasn&apos;t played any games yet.</p>
+      ) : (
+        <div className="arena-panel rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-white/10 text-left text-xs uppercase tracking-wider text-gray-400">
+                <th className="py-3 px-4">Game</th>
+                <th className="py-3 px-4">Status</th>
+                <th className="py-3 px-4">Result</th>
+                <th className="py-3 px-4 text-right">Entry fee</th>
+                <th className="py-3 px-4 text-right">Penalties</th>
+                <th className="py-3 px-4 text-right">Prize</th>
+                <th className="py-3 px-4 text-right">Rewards</th>
+              </tr>
+            </thead>
+            <tbody>
+              {games.map((entry) => {
+                const penaltyETH = BigInt(entry.penaltyETH);
+                const rewards = totalRewards(entry.rewards);
+                return (
+                  <tr key={`${entry.contract.id}:${entry.game.gameId}`} className="border-b border-white/5 hover:bg-white/5">
+                    <td className="py-3 px-4">
+                      <Link href={`/game/${entry.contract.id}/${entry.game.gameId}`} className="text-white hover:text-[var(--neon-cyan)]">
+                        #{entry.game.gameId}
+                      </Link>
+                      {!entry.contract.current && <span className="ml-2 text-xs text-gray-500">{entry.contract.label}</span>}
+                    </td>
+                    <td className="py-3 px-4 text-gray-300">{GAME_STATUS_LABELS[entry.status]}</td>
+                    <td className="py-3 px-4">{resultOf(entry)}</td>
+                    <td className="py-3 px-4 text-right tabular-nums text-gray-300">{formatETH(BigInt(entry.game.entryFee))}</td>
+                    <td className="py-3 px-4 text-right tabular-nums">
+                      {entry.penalties > 0 || penaltyETH > 0n ? (
+                        <span className="text-red-300" title={`${entry.penalties} penalt${entry.penalties === 1 ? 'y' : 'ies'} applied`}>
+                          {formatETH(penaltyETH)}
+                        </span>
+                      ) : (
+                        <span className="text-gray-600">—</span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-right tabular-nums">
+                      {entry.prize !== null ? (
+                        <span className="text-[var(--accent-green)]">{formatETH(BigInt(entry.prize))}</span>
+                      ) : entry.refund !== null ? (
+                        <span className="text-gray-300" title="Refund">{formatETH(BigInt(entry.refund))}</span>
+                      ) : (
+                        <span className="text-gray-600">—</span>
+                      )}
+                    </td>
+                    <td
+                      className="py-3 px-4 text-right tabular-nums"
+                      title={`Start ${formatEther(BigInt(entry.rewards.start))} · finalization ${formatEther(BigInt(entry.rewards.finalization))} · cancel ${formatEther(BigInt(entry.rewards.cancel))} ETH`}
+                    >
+                      {rewards > 0n ? <span className="text-gray-300">{formatETH(rewards)}</span> : <span className="text-gray-600">—</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
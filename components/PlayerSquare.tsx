@@ -1,13 +1,27 @@
 'use client';
 
-import { formatEther, type Address } from 'viem';
+import { formatEther, formatUnits, type Address } from 'viem';
+import { useScoringMode } from '@/hooks/useScoringMode';
+import { Portfolio } from '@/lib/portfolio';
+import PlayerLink from './PlayerLink';
 
 interface PlayerSquareProps {
   player: Address;
   rank: number;
   isEliminated: boolean;
+  /** Projected to be eliminated when the round is finalized */
+  atRisk?: boolean;
+  /** ETH above (+) or below (-) the round's cut */
+  marginETH?: bigint;
   squareIndex: number;
+  /** Raw ETH gain % */
   gainPercent: number;
+  /** ETH gain % after penalties; falls back to the raw gain */
+  adjustedGainPercent?: number;
+  penaltyETH?: bigint;
+  /** Per-token holdings; shown in portfolio mode */
+  portfolio?: Portfolio;
+  portfolioGainPercent?: number;
   balance: bigint;
 }
 
@@ -15,36 +29,71 @@ export default function PlayerSquare({
   player,
   rank,
   isEliminated,
+  atRisk = false,
+  marginETH,
   squareIndex,
   gainPercent,
+  adjustedGainPercent = gainPercent,
+  penaltyETH = 0n,
+  portfolio,
+  portfolioGainPercent,
   balance,
 }: PlayerSquareProps) {
+  const { mode } = useScoringMode();
   const isTop10 = rank <= 10;
-  const gainColor = gainPercent >= 0 ? 'text-green-400' : 'text-red-400';
-  const gainSign = gainPercent >= 0 ? '+' : '';
+  const showPortfolio = mode === 'portfolio' && portfolio !== undefined && portfolioGainPercent !== undefined;
+  const scoredGain = showPortfolio ? portfolioGainPercent : mode === 'adjusted' ? adjustedGainPercent : gainPercent;
+  const otherGain = mode === 'raw' ? adjustedGainPercent : gainPercent;
+  const penalized = penaltyETH > 0n && !showPortfolio;
+  const holdingsTitle = portfolio?.holdings
+    .map((holding) => `${holding.symbol}: ${formatUnits(holding.balance, holding.decimals)}${holding.valueETH === null ? ' (unpriced)' : ''}`)
+    .join('\n');
+  const gainColor = scoredGain >= 0 ? 'text-green-400' : 'text-red-400';
+  const formatGain = (gain: number) => `${gain >= 0 ? '+' : ''}${gain.toFixed(2)}%`;
 
   return (
     <div
       className={`w-full h-full rounded border flex flex-col items-center justify-center text-xs p-2 cursor-pointer transition-all ${
         isEliminated
           ? 'border-white/10 bg-black/30 opacity-60'
+          : atRisk
+          ? 'border-red-500/60 bg-red-950/30 hover:border-red-500'
           : 'border-[var(--neon-blue)]/25 bg-black/40 hover:border-[var(--neon-blue)]/50'
       }`}
-      title={`Square #${squareIndex + 1} - Rank #${rank}`}
+      title={`Square #${squareIndex + 1} - Rank #${rank}${atRisk ? ' - at risk of elimination' : ''}`}
     >
       <div className="text-gray-400 text-[10px] mb-1">#{squareIndex + 1}</div>
       {isEliminated ? (
         <div className="text-gray-400 text-[10px]">Eliminated</div>
       ) : (
         <>
-          <div className="text-white text-[11px] font-medium mb-1 truncate w-full text-center" title={player}>
-            {`${player.slice(0, 6)}...${player.slice(-4)}`}
+          <div className="text-white text-[11px] font-medium mb-1 truncate w-full text-center">
+            <PlayerLink address={player} />
           </div>
           <div className={`font-semibold text-[12px] mb-1 ${gainColor}`}>
-            {gainSign}{gainPercent.toFixed(2)}%
+            {formatGain(scoredGain)}
           </div>
-          <div className="text-gray-400 text-[10px]">
-            {parseFloat(formatEther(balance)).toFixed(4)}
+          {penalized && (
+            <div className="text-gray-400 text-[9px] mb-1" title={`Penalty: -${formatEther(penaltyETH)} ETH`}>
+              {mode === 'raw' ? 'adj' : 'raw'} {formatGain(otherGain)}
+            </div>
+          )}
+          {showPortfolio && portfolio.holdings.length > 1 && (
+            <div className="text-gray-400 text-[9px] mb-1 truncate w-full text-center" title={holdingsTitle}>
+              {portfolio.holdings.map((holding) => holding.symbol).join(' · ')}
+            </div>
+          )}
+          {atRisk && <div className="text-red-400 text-[9px] uppercase mb-1">At risk</div>}
+          {marginETH !== undefined && (
+            <div
+              className={`text-[9px] mb-1 ${marginETH >= 0n ? 'text-green-400/80' : 'text-red-400'}`}
+              title={marginETH >= 0n ? 'ETH above the cut' : 'ETH needed to reach the cut'}
+            >
+              {marginETH >= 0n ? '+' : '-'}{parseFloat(formatEther(marginETH >= 0n ? marginETH : -marginETH)).toFixed(4)} vs cut
+            </div>
+          )}
+          <div className="text-gray-400 text-[10px]" title={showPortfolio ? holdingsTitle : undefined}>
+            {parseFloat(formatEther(showPortfolio ? portfolio.totalETH : balance)).toFixed(4)}
           </div>
         </>
       )}
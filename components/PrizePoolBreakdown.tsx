@@ -1,6 +1,7 @@
 'use client';
 
 import { formatEther } from 'viem';
+import { splitPrizePool } from '@/lib/placements';
 
 interface PrizePoolBreakdownProps {
   prizePool: bigint | undefined;
@@ -43,6 +44,7 @@ export default function PrizePoolBreakdown({
   // Calculate breakdown
   const totalEntryFees = entryFee * BigInt(totalPlayers);
   const prizePoolAmount = prizePool;
+  const split = splitPrizePool(prizePoolAmount);
   const operationsFund = (totalEntryFees * 20n) / 100n; // 20%
   const platformFee = (totalEntryFees * 10n) / 100n; // 10%
   const calculatedPrizePool = (totalEntryFees * 70n) / 100n; // 70%
@@ -89,15 +91,15 @@ export default function PrizePoolBreakdown({
             <div className="space-y-2 pt-2 border-t border-[var(--accent-green)]/30">
               <div className="flex justify-between items-center text-sm">
                 <span className="text-[var(--accent-yellow)]">🥇 1st (60%)</span>
-                <span className="font-mono text-white">{formatEther((prizePoolAmount * 60n) / 100n)} ETH</span>
+                <span className="font-mono text-white">{formatEther(split.first)} ETH</span>
               </div>
               <div className="flex justify-between items-center text-sm">
                 <span className="text-gray-300">🥈 2nd (30%)</span>
-                <span className="font-mono text-white">{formatEther((prizePoolAmount * 30n) / 100n)} ETH</span>
+                <span className="font-mono text-white">{formatEther(split.second)} ETH</span>
               </div>
               <div className="flex justify-between items-center text-sm">
                 <span className="text-amber-400/90">🥉 3rd (10%)</span>
-                <span className="font-mono text-white">{formatEther((prizePoolAmount * 10n) / 100n)} ETH</span>
+                <span className="font-mono text-white">{formatEther(split.third)} ETH</span>
               </div>
             </div>
           </div>
@@ -3,7 +3,10 @@
 import { useState, useEffect } from 'react';
 import { formatEther } from 'viem';
 import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { CONTRACT_ADDRESS, contractABI } from '@/lib/contract';
+import { contractABI } from '@/lib/contract';
+import { explorerTxUrl } from '@/lib/deployments';
+import { useChainGuard } from '@/hooks/useChainGuard';
+import { useDeployment } from '@/hooks/useDeployment';
 
 interface RegistrationModalProps {
   gameId: number;
@@ -19,6 +22,8 @@ export default function RegistrationModal({
   onSuccess,
 }: RegistrationModalProps) {
   const [error, setError] = useState<string | null>(null);
+  const { deployment, chainId, contractAddress } = useDeployment();
+  const { wrongChain, switchLabel, switching, switchToChain } = useChainGuard();
 
   const { writeContract, data: hash, isPending, error: writeError } = useWriteContract();
   const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
@@ -47,9 +52,14 @@ export default function RegistrationModal({
 
   const handleRegister = () => {
     setError(null);
+    if (wrongChain) {
+      switchToChain();
+      return;
+    }
     try {
       writeContract({
-        address: CONTRACT_ADDRESS,
+        address: contractAddress,
+        chainId,
         abi: contractABI,
         functionName: 'register',
         args: [BigInt(gameId)],
@@ -123,9 +133,9 @@ export default function RegistrationModal({
         {(isPending || isConfirming) && (
           <div className="rounded-xl border border-[var(--neon-blue)]/30 bg-black/30 p-3 text-sm text-gray-400">
             {isPending ? 'Waiting for wallet...' : 'Confirming transaction...'}
-            {hash && (
+            {hash && deployment.explorerUrl && (
               <a 
-                href={`https://sepolia.basescan.org/tx/${hash}`}
+                href={explorerTxUrl(deployment, hash)!}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-[var(--neon-cyan)] hover:underline mt-1 block text-xs"
@@ -143,10 +153,10 @@ export default function RegistrationModal({
         ) : (
           <button
             onClick={handleRegister}
-            disabled={isPending || isConfirming}
+            disabled={isPending || isConfirming || switching}
             className="w-full px-4 py-3 rounded-xl border border-[var(--neon-blue)]/40 bg-[var(--neon-blue)]/20 text-white font-medium hover:bg-[var(--neon-blue)]/30 hover:border-[var(--neon-blue)]/60 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
-            {isPending || isConfirming ? 'Processing...' : 'Confirm & Join'}
+            {wrongChain ? switchLabel : isPending || isConfirming ? 'Processing...' : 'Confirm & Join'}
           </button>
         )}
         </div>
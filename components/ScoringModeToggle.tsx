@@ -0,0 +1,29 @@
+'use client';
+
+import { useScoringMode } from '@/hooks/useScoringMode';
+import { SCORING_MODE_LABELS, ScoringMode } from '@/lib/scoring';
+
+const MODES: ScoringMode[] = ['adjusted', 'raw', 'portfolio'];
+
+export default function ScoringModeToggle() {
+  const { mode, setMode } = useScoringMode();
+
+  return (
+    <div role="tablist" aria-label="Scoring mode" className="flex rounded-lg border border-white/10 bg-black/40 p-0.5 text-xs">
+      {MODES.map((option) => (
+        <button
+          key={option}
+          type="button"
+          role="tab"
+          aria-selected={mode === option}
+          onClick={() => setMode(option)}
+          className={`px-3 py-1 rounded-md transition-colors ${
+            mode === option ? 'bg-[var(--neon-blue)]/30 text-white' : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          {SCORING_MODE_LABELS[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
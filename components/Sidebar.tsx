@@ -1,15 +1,22 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useReadContract, useAccount } from 'wagmi';
 import { formatEther } from 'viem';
-import { contractABI, CONTRACT_ADDRESS } from '@/lib/contract';
+import { contractABI } from '@/lib/contract';
+import { decodePlayer } from '@/lib/decoders';
+import { canPerform, GameStatus } from '@/lib/gameStatus';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useRoundStandings } from '@/hooks/useRoundStandings';
 import StartGameButton from './StartGameButton';
 import RegistrationModal from './RegistrationModal';
 import PrizePoolBreakdown from './PrizePoolBreakdown';
 import FinalizeRoundButton from './FinalizeRoundButton';
 import CancelGameButton from './CancelGameButton';
 import SwapModal from './SwapModal';
+import DangerZone from './DangerZone';
+import MyPosition from './MyPosition';
 
 const ETH_PRICE_USD = 2500; // Approximate for "Earn ~$X.XX" display
 
@@ -27,8 +34,7 @@ interface SidebarProps {
   canStart: boolean;
   startReward: bigint | undefined;
   rewardTimeRemaining: number;
-  roundShouldHaveEnded?: boolean; // True if round time expired but hasn't been finalized yet
-  gameStatus?: 'REGISTRATION_OPEN' | 'READY_TO_START' | 'LIVE' | 'FINALIZED' | 'CANCELLED' | 'UNDERFILLED';
+  gameStatus: GameStatus; // From deriveGameStatus; decides which actions are offered
   registrationDeadline?: number;
   minPlayers?: number;
   onRegistrationSuccess?: () => void;
@@ -48,39 +54,46 @@ export default function Sidebar({
   canStart,
   startReward,
   rewardTimeRemaining,
-  roundShouldHaveEnded,
   gameStatus,
   registrationDeadline,
   minPlayers,
   onRegistrationSuccess,
 }: SidebarProps) {
   const { address } = useAccount();
+  const { chainId, contractAddress } = useDeployment();
   const [showRegistration, setShowRegistration] = useState(false);
   const [showPrizePoolBreakdown, setShowPrizePoolBreakdown] = useState(false);
   const [showSwap, setShowSwap] = useState(false);
   const [countdown, setCountdown] = useState<string>('');
 
+  // True if round time expired but hasn't been finalized yet
+  const roundShouldHaveEnded = canPerform(gameStatus, 'finalizeRound');
+
   // Read player penalties from contract
   const { data: playerData } = useReadContract({
-    address: CONTRACT_ADDRESS,
+    address: contractAddress,
     abi: contractABI,
     functionName: 'players',
+    chainId,
     args: [BigInt(gameId), address!],
     query: { enabled: !!address && userStatus !== 'not_registered' },
   });
 
-  // Extract penalty ETH from player data (index 7 in the tuple)
-  const penaltyETH = playerData ? (playerData as readonly unknown[])[7] as bigint : 0n;
+  const penaltyETH = playerData ? decodePlayer(playerData).penaltyETH : 0n;
   const hasPenalties = penaltyETH > 0n;
 
   const { data: finalizationRewardWei } = useReadContract({
-    address: CONTRACT_ADDRESS,
+    address: contractAddress,
     abi: contractABI,
     functionName: 'getFinalizationReward',
+    chainId,
     args: [BigInt(gameId), BigInt(currentRound)],
     query: { enabled: !!roundShouldHaveEnded && gameId > 0 && currentRound > 0 },
   });
 
+  // Same query the board uses, so the sidebar and squares agree on the cut
+  const { standings } = useRoundStandings(gameId, currentRound, gameStatus === 'LIVE', true);
+
   const finalizationRewardEth = finalizationRewardWei !== undefined && finalizationRewardWei !== null ? Number(formatEther(finalizationRewardWei as bigint)) : 0;
   const finalizationRewardUsd = finalizationRewardEth * ETH_PRICE_USD;
 
@@ -183,8 +196,16 @@ export default function Sidebar({
           </div>
         </div>
 
+        {gameStatus === 'LIVE' && standings && standings.standings.length > 0 && (
+          <DangerZone standings={standings} address={address} />
+        )}
+
+        {gameStatus === 'LIVE' && userStatus === 'registered' && (
+          <MyPosition gameId={gameId} roundNumber={currentRound} />
+        )}
+
         {/* Easy Deposit Button - Same aesthetic as Create Game primary button */}
-        {userStatus === 'not_registered' && entryFee !== undefined && (
+        {userStatus === 'not_registered' && entryFee !== undefined && canPerform(gameStatus, 'register') && (
           <div className="arena-panel p-4">
             <div className="text-xs text-[var(--neon-cyan)] mb-2">Entry Fee</div>
             <div className="text-lg font-semibold text-white mb-4">
@@ -227,7 +248,7 @@ export default function Sidebar({
 
       {/* Start Game Button - Anyone can start, not just registered players */}
       {/* Show if game can start, even if reward is 0 or expired (someone needs to start it) */}
-      {canStart && startReward !== undefined && (
+      {canPerform(gameStatus, 'start') && canStart && startReward !== undefined && (
           <StartGameButton
             gameId={gameId}
             reward={startReward}
@@ -280,7 +301,7 @@ export default function Sidebar({
       )}
 
       {/* Cancel Game Button - shown for games that haven't started */}
-      {currentRound === 0 && gameStatus && registrationDeadline !== undefined && minPlayers !== undefined && (
+      {currentRound === 0 && registrationDeadline !== undefined && minPlayers !== undefined && (
         <div className="mb-6">
           <CancelGameButton
             gameId={gameId}
@@ -310,6 +331,13 @@ export default function Sidebar({
         Swap Tokens
       </button>
 
+      <Link href="/leaderboard" className="create-game-modal-btn mt-3 flex items-center justify-center gap-2">
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+          <path d="M8 21h8M12 17v4M7 4h10v5a5 5 0 0 1-10 0V4zM17 6h3a3 3 0 0 1-3 3M7 6H4a3 3 0 0 0 3 3" />
+        </svg>
+        Leaderboard
+      </Link>
+
       {showSwap && <SwapModal onClose={() => setShowSwap(false)} />}
 
       {showRegistration && (
@@ -3,7 +3,9 @@
 import { useState, useEffect } from 'react';
 import { formatEther } from 'viem';
 import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { CONTRACT_ADDRESS, contractABI } from '@/lib/contract';
+import { contractABI } from '@/lib/contract';
+import { useChainGuard } from '@/hooks/useChainGuard';
+import { useDeployment } from '@/hooks/useDeployment';
 
 interface StartGameButtonProps {
   gameId: number;
@@ -21,6 +23,8 @@ export default function StartGameButton({
   userStatus,
 }: StartGameButtonProps) {
   const [countdown, setCountdown] = useState<string>('');
+  const { chainId, contractAddress } = useDeployment();
+  const { wrongChain, switchLabel, switching, switchToChain } = useChainGuard();
 
   const { writeContract, data: hash, isPending } = useWriteContract();
   const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
@@ -47,11 +51,16 @@ export default function StartGameButton({
   }, [timeRemaining]);
 
   const handleStart = () => {
+    if (wrongChain) {
+      switchToChain();
+      return;
+    }
     // If user is not registered, they need to pay entry fee
     const value = (userStatus === 'not_registered' && entryFee) ? entryFee : undefined;
     
     writeContract({
-      address: CONTRACT_ADDRESS,
+      address: contractAddress,
+      chainId,
       abi: contractABI,
       functionName: 'startGame',
       args: [BigInt(gameId)],
@@ -70,10 +79,12 @@ export default function StartGameButton({
     <div className="space-y-2">
       <button
         onClick={handleStart}
-        disabled={isPending || isConfirming || isSuccess}
+        disabled={isPending || isConfirming || isSuccess || switching}
         className="w-full px-4 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-semibold text-white animate-pulse-slow"
       >
-        {isPending || isConfirming
+        {wrongChain
+          ? switchLabel
+          : isPending || isConfirming
           ? 'Starting Game...'
           : isSuccess
           ? 'Game Started!'
@@ -11,19 +11,19 @@ import {
   useWaitForTransactionReceipt,
 } from 'wagmi';
 import { useSwapQuote } from '@/hooks/useSwapQuote';
+import { useDeployment } from '@/hooks/useDeployment';
+import { explorerTxUrl } from '@/lib/deployments';
 import {
-  TOKENS,
   Token,
   isNativeETH,
   getSwapAddress,
   calculateMinAmountOut,
-  SWAP_ROUTER_ADDRESS,
   SWAP_ROUTER_ABI,
   ERC20_ABI,
   DEFAULT_FEE,
   DEFAULT_SLIPPAGE_BPS,
 } from '@/lib/uniswap';
-import { CONTRACT_ADDRESS, contractABI } from '@/lib/contract';
+import { contractABI } from '@/lib/contract';
 
 interface SwapModalProps {
   onClose: () => void;
@@ -33,6 +33,9 @@ type SwapStep = 'idle' | 'approving' | 'swapping' | 'success';
 
 export default function SwapModal({ onClose }: SwapModalProps) {
   const { address, isConnected } = useAccount();
+  const { deployment, contractAddress } = useDeployment();
+  const { swapRouter, weth } = deployment.uniswap;
+  const tokens = deployment.tokens;
 
   // ── Draggable panel (matches CreateGameModal) ─────────────────────
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
@@ -71,15 +74,15 @@ export default function SwapModal({ onClose }: SwapModalProps) {
 
   // ── Whitelist verification ───────────────────────────────────────
   const { data: isRouterApproved } = useReadContract({
-    address: CONTRACT_ADDRESS,
+    address: contractAddress,
     abi: contractABI,
     functionName: 'isProtocolApproved',
-    args: [SWAP_ROUTER_ADDRESS],
+    args: [swapRouter],
   });
 
   // ── Token & amount state ──────────────────────────────────────────
-  const [tokenIn, setTokenIn] = useState<Token>(TOKENS[0]); // ETH
-  const [tokenOut, setTokenOut] = useState<Token>(TOKENS[2]); // USDC
+  const [tokenIn, setTokenIn] = useState<Token>(tokens[0]); // ETH
+  const [tokenOut, setTokenOut] = useState<Token>(tokens[2]); // USDC
   const [amountInRaw, setAmountInRaw] = useState('');
   const [slippageBps, setSlippageBps] = useState(DEFAULT_SLIPPAGE_BPS);
   const [showSettings, setShowSettings] = useState(false);
@@ -126,7 +129,7 @@ export default function SwapModal({ onClose }: SwapModalProps) {
     address: isNativeETH(tokenIn) ? undefined : (tokenIn.address as Address),
     abi: ERC20_ABI,
     functionName: 'allowance',
-    args: address ? [address, SWAP_ROUTER_ADDRESS] : undefined,
+    args: address ? [address, swapRouter] : undefined,
     query: { enabled: isConnected && !isNativeETH(tokenIn) && !!address },
   });
 
@@ -248,7 +251,7 @@ export default function SwapModal({ onClose }: SwapModalProps) {
       address: tokenIn.address as Address,
       abi: ERC20_ABI,
       functionName: 'approve',
-      args: [SWAP_ROUTER_ADDRESS, maxUint256],
+      args: [swapRouter, maxUint256],
     });
   };
 
@@ -257,8 +260,8 @@ export default function SwapModal({ onClose }: SwapModalProps) {
     setError(null);
     setStep('swapping');
 
-    const tokenInAddr = getSwapAddress(tokenIn);
-    const tokenOutAddr = getSwapAddress(tokenOut);
+    const tokenInAddr = getSwapAddress(tokenIn, weth);
+    const tokenOutAddr = getSwapAddress(tokenOut, weth);
     const amountOutMinimum = calculateMinAmountOut(quoteAmount, slippageBps);
 
     const swapParams = {
@@ -273,7 +276,7 @@ export default function SwapModal({ onClose }: SwapModalProps) {
 
     if (isNativeETH(tokenIn)) {
       writeSwap({
-        address: SWAP_ROUTER_ADDRESS,
+        address: swapRouter,
         abi: SWAP_ROUTER_ABI,
         functionName: 'exactInputSingle',
         args: [swapParams],
@@ -283,7 +286,7 @@ export default function SwapModal({ onClose }: SwapModalProps) {
       const swapData = encodeFunctionData({
         abi: SWAP_ROUTER_ABI,
         functionName: 'exactInputSingle',
-        args: [{ ...swapParams, recipient: SWAP_ROUTER_ADDRESS }],
+        args: [{ ...swapParams, recipient: swapRouter }],
       });
       const unwrapData = encodeFunctionData({
         abi: SWAP_ROUTER_ABI,
@@ -291,14 +294,14 @@ export default function SwapModal({ onClose }: SwapModalProps) {
         args: [amountOutMinimum, address],
       });
       writeSwap({
-        address: SWAP_ROUTER_ADDRESS,
+        address: swapRouter,
         abi: SWAP_ROUTER_ABI,
         functionName: 'multicall',
         args: [[swapData, unwrapData]],
       });
     } else {
       writeSwap({
-        address: SWAP_ROUTER_ADDRESS,
+        address: swapRouter,
         abi: SWAP_ROUTER_ABI,
         functionName: 'exactInputSingle',
         args: [swapParams],
@@ -569,9 +572,9 @@ export default function SwapModal({ onClose }: SwapModalProps) {
             {isProcessing && (
               <div className="rounded-lg border border-[var(--neon-blue)]/30 bg-black/30 p-4 text-sm text-white/80">
                 {approvePending ? 'Waiting for approval...' : approveConfirming ? 'Confirming approval...' : swapPending ? 'Waiting for wallet...' : 'Confirming swap...'}
-                {(approveHash || swapHash) && (
+                {(approveHash || swapHash) && deployment.explorerUrl && (
                   <a
-                    href={`https://sepolia.basescan.org/tx/${approveHash || swapHash}`}
+                    href={explorerTxUrl(deployment, (approveHash || swapHash)!)!}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-[var(--neon-cyan)] hover:underline mt-1 block text-xs"
@@ -586,14 +589,16 @@ export default function SwapModal({ onClose }: SwapModalProps) {
             {step === 'success' && swapHash && (
               <div className="rounded-lg border border-[var(--accent-green)]/50 bg-[var(--accent-green)]/10 p-4">
                 <div className="text-sm text-[var(--accent-green)] font-semibold mb-1">Swap successful!</div>
-                <a
-                  href={`https://sepolia.basescan.org/tx/${swapHash}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-xs text-[var(--neon-cyan)] hover:underline"
-                >
-                  View on Basescan →
-                </a>
+                {deployment.explorerUrl && (
+                  <a
+                    href={explorerTxUrl(deployment, swapHash)!}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-[var(--neon-cyan)] hover:underline"
+                  >
+                    View on Basescan →
+                  </a>
+                )}
               </div>
             )}
 
@@ -643,7 +648,7 @@ export default function SwapModal({ onClose }: SwapModalProps) {
                 </button>
               </div>
               <div className="space-y-3">
-                {TOKENS.map((token) => (
+                {tokens.map((token) => (
                   <button
                     key={token.symbol}
                     onClick={() => handleSelectToken(token)}
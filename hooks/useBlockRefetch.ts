@@ -0,0 +1,31 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useBlockNumber } from 'wagmi';
+
+/** Floor between block-driven refreshes; a Base block every 2s would otherwise mean a reload every 2s */
+export const LIVE_REFRESH_MS = 6_000;
+
+/**
+ * While `live`, refetch a query as new blocks arrive on `chainId`, at most
+ * once per LIVE_REFRESH_MS since its data last updated. Several components
+ * can watch the same query; a refetch already in flight is joined.
+ */
+export function useBlockRefetch(
+  chainId: number,
+  live: boolean,
+  dataUpdatedAt: number,
+  refetch: (options: { cancelRefetch: boolean }) => unknown
+): void {
+  const { data: blockNumber } = useBlockNumber({
+    chainId,
+    watch: live,
+    query: { enabled: live },
+  });
+
+  useEffect(() => {
+    if (!live || blockNumber === undefined) return;
+    if (Date.now() - dataUpdatedAt < LIVE_REFRESH_MS) return;
+    refetch({ cancelRefetch: false });
+  }, [live, blockNumber, dataUpdatedAt, refetch]);
+}
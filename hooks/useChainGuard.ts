@@ -0,0 +1,24 @@
+'use client';
+
+import { useAccount, useSwitchChain } from 'wagmi';
+import { useDeployment } from './useDeployment';
+
+/**
+ * Whether the connected wallet is on the deployment's chain, and a way to
+ * move it there. Write actions check `wrongChain` before sending and offer
+ * `switchToChain` instead, since a pinned game page can sit on a chain the
+ * wallet isn't on.
+ */
+export function useChainGuard() {
+  const { deployment, chainId } = useDeployment();
+  const { isConnected, chainId: walletChainId } = useAccount();
+  const { switchChain, isPending } = useSwitchChain();
+
+  return {
+    wrongChain: isConnected && walletChainId !== chainId,
+    /** Label for the button offering the switch */
+    switchLabel: isPending ? 'Switching network...' : `Switch to ${deployment.chain.name}`,
+    switching: isPending,
+    switchToChain: () => switchChain({ chainId }),
+  };
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { createContext, useContext, useMemo } from 'react';
+import { useChainId } from 'wagmi';
+import { ContractDeployment, DEPLOYMENTS, getDeployment } from '@/lib/deployments';
+import { getContractAbi } from '@/lib/abis';
+import { getPublicClient } from '@/lib/contract';
+
+/**
+ * Pins everything below it to one contract, whatever chain the wallet is
+ * on. The game page provides its URL's deployment here.
+ */
+export const ContractDeploymentContext = createContext<ContractDeployment | null>(null);
+
+/**
+ * The deployment the app is on: the pinned contract when inside a
+ * ContractDeploymentContext, otherwise the current contract on the connected
+ * wallet's chain (or the default chain when that's unsupported).
+ */
+export function useDeployment() {
+  const walletChainId = useChainId();
+  const pinned = useContext(ContractDeploymentContext);
+  return useMemo(() => {
+    const deployment = pinned ? DEPLOYMENTS[pinned.chainId] : getDeployment(walletChainId);
+    const contract = pinned ?? deployment.contract;
+    return {
+      deployment,
+      contract,
+      chainId: deployment.chain.id,
+      contractAddress: contract.address,
+      abi: getContractAbi(contract.abiVersion),
+      publicClient: getPublicClient(deployment.chain.id),
+    };
+  }, [pinned, walletChainId]);
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useReadContract } from 'wagmi';
+import { contractABI } from '@/lib/contract';
+import { useDeployment } from '@/hooks/useDeployment';
+import { DEFAULT_GRACE_PERIOD } from '@/lib/gameStatus';
+
+/**
+ * The contract's cancellation GRACE_PERIOD in seconds. It's a constant, so
+ * it's read once per session; DEFAULT_GRACE_PERIOD covers the first render.
+ */
+export function useGracePeriod(): number {
+  const { chainId, contractAddress } = useDeployment();
+  const { data } = useReadContract({
+    address: contractAddress,
+    chainId,
+    abi: contractABI,
+    functionName: 'GRACE_PERIOD',
+    query: { staleTime: Infinity },
+  });
+  return data !== undefined ? Number(data as bigint) : DEFAULT_GRACE_PERIOD;
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useReadContracts } from 'wagmi';
+import { getContractAbi } from '@/lib/abis';
+import { ContractDeployment } from '@/lib/deployments';
+import { decodeRound, Round } from '@/lib/decoders';
+
+/** How often the finalization reward is re-read while a round waits for a finalizer */
+const REWARD_REFRESH_MS = 15_000;
+
+/**
+ * The current round of a running game and what finalizing it would pay,
+ * read in one multicall. Cards in the lobby use it to show round progress
+ * and flag rounds waiting for a finalizer. The read is repeated when
+ * `lastEventAt` (when the lobby's event watcher last saw the game touched)
+ * moves on. Once `roundOver` (the round's end time has passed) no event marks
+ * the finalization reward growing, so it's polled until someone finalizes.
+ */
+export function useLiveRound(
+  contract: ContractDeployment | undefined,
+  gameId: number,
+  roundNumber: number,
+  enabled = true,
+  lastEventAt?: number,
+  roundOver = false
+): { round: Round | undefined; finalizationReward: bigint | undefined } {
+  const active = enabled && !!contract && roundNumber > 0;
+  const base = contract
+    ? { address: contract.address, abi: getContractAbi(contract.abiVersion), chainId: contract.chainId }
+    : undefined;
+
+  const { data, refetch } = useReadContracts({
+    contracts: base
+      ? [
+          { ...base, functionName: 'rounds', args: [BigInt(gameId), BigInt(roundNumber)] },
+          { ...base, functionName: 'getFinalizationReward', args: [BigInt(gameId), BigInt(roundNumber)] },
+        ]
+      : [],
+    query: { enabled: active, refetchInterval: active && roundOver ? REWARD_REFRESH_MS : false },
+  });
+
+  useEffect(() => {
+    if (!active || lastEventAt === undefined) return;
+    refetch({ cancelRefetch: false });
+  }, [active, lastEventAt, refetch]);
+
+  const [roundResult, rewardResult] = data ?? [];
+  return {
+    round: roundResult?.status === 'success' ? decodeRound(roundResult.result, contract?.abiVersion) : undefined,
+    finalizationReward: rewardResult?.status === 'success' ? (rewardResult.result as bigint) : undefined,
+  };
+}
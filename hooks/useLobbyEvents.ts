@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useWatchContractEvent } from 'wagmi';
+import { getContractAbi } from '@/lib/abis';
+import { ContractDeployment } from '@/lib/deployments';
+
+/** Events that change what a lobby card shows; RoundFinalized moves a live card to its next round */
+export const LOBBY_EVENTS = ['GameCreated', 'PlayerRegistered', 'RoundStarted', 'RoundFinalized', 'GameCancelled', 'GameFinalized', 'PrizePaid'];
+
+/** Lobby events that can move a game to another status, and so onto or off a tab */
+const STATUS_EVENTS = ['GameCreated', 'RoundStarted', 'RoundFinalized', 'GameCancelled', 'GameFinalized', 'PrizePaid'];
+
+export interface LobbyEventBatch {
+  /** Games an event touched, deduplicated */
+  gameIds: bigint[];
+  /** Whether any of them is a new game */
+  created: boolean;
+  /** Games whose status the events may have changed */
+  statusChanged: bigint[];
+}
+
+interface GameLog {
+  eventName?: string;
+  args?: { gameId?: bigint };
+}
+
+/**
+ * Watch a contract for lobby-relevant events and report the games they
+ * touched, one batch per poll of new logs.
+ */
+export function useLobbyEvents(contract: ContractDeployment, onEvents: (batch: LobbyEventBatch) => void) {
+  // The watcher re-subscribes when its options change; keep the latest callback out of them
+  const onEventsRef = useRef(onEvents);
+  useEffect(() => {
+    onEventsRef.current = onEvents;
+  }, [onEvents]);
+
+  useWatchContractEvent({
+    address: contract.address,
+    abi: getContractAbi(contract.abiVersion),
+    chainId: contract.chainId,
+    onLogs(logs) {
+      const relevant = (logs as GameLog[]).filter(
+        (log) => log.eventName && LOBBY_EVENTS.includes(log.eventName) && log.args?.gameId !== undefined
+      );
+      if (relevant.length === 0) return;
+      onEventsRef.current({
+        gameIds: [...new Set(relevant.map((log) => log.args!.gameId!))],
+        created: relevant.some((log) => log.eventName === 'GameCreated'),
+        statusChanged: [...new Set(relevant.filter((log) => STATUS_EVENTS.includes(log.eventName!)).map((log) => log.args!.gameId!))],
+      });
+    },
+    onError(error) {
+      console.error('Error watching lobby events:', error);
+    },
+  });
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchNames, MAX_NAMES_PER_REQUEST, ResolvedName } from '@/lib/namesApi';
+
+/** Names rarely change; keep them for the whole session across pages */
+const NAME_STALE_MS = 60 * 60_000;
+
+/** Lookups requested within this window share one /api/names request */
+const BATCH_DELAY_MS = 10;
+
+type Waiter = { resolve: (name: ResolvedName) => void; reject: (error: unknown) => void };
+
+const pending = new Map<string, Waiter[]>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function flush() {
+  flushTimer = null;
+  const batch = [...pending.entries()];
+  pending.clear();
+
+  for (let start = 0; start < batch.length; start += MAX_NAMES_PER_REQUEST) {
+    const chunk = batch.slice(start, start + MAX_NAMES_PER_REQUEST);
+    try {
+      const { names } = await fetchNames(chunk.map(([address]) => address));
+      for (const [address, waiters] of chunk) {
+        const name = names[address] ?? { name: null, avatar: null };
+        waiters.forEach((waiter) => waiter.resolve(name));
+      }
+    } catch (error) {
+      chunk.forEach(([, waiters]) => waiters.forEach((waiter) => waiter.reject(error)));
+    }
+  }
+}
+
+/** Queue `address` for the next batched lookup */
+function loadName(address: string): Promise<ResolvedName> {
+  return new Promise((resolve, reject) => {
+    const waiters = pending.get(address);
+    if (waiters) waiters.push({ resolve, reject });
+    else pending.set(address, [{ resolve, reject }]);
+    flushTimer ??= setTimeout(flush, BATCH_DELAY_MS);
+  });
+}
+
+/**
+ * Basename or ENS name and avatar of `address`. Every address rendered in
+ * the same tick is resolved in one request, and results stay in the query
+ * cache across pages.
+ */
+export function useName(address: string | undefined): ResolvedName | undefined {
+  const key = address?.toLowerCase();
+  const { data } = useQuery({
+    queryKey: ['name', key],
+    queryFn: () => loadName(key!),
+    enabled: !!key,
+    staleTime: NAME_STALE_MS,
+    gcTime: NAME_STALE_MS,
+    retry: 1,
+  });
+  return data;
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Current unix time in seconds, re-rendering every `intervalMs` so anything
+ * derived from it (countdowns, game status) moves on its own.
+ */
+export function useNow(intervalMs = 1000): number {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+}
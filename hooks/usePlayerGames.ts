@@ -0,0 +1,44 @@
+'use client';
+
+import { useQueries } from '@tanstack/react-query';
+import { Address } from 'viem';
+import { ContractDeployment } from '@/lib/deployments';
+import { fetchPlayerGames, PlayerGameEntry } from '@/lib/playerGamesApi';
+import { useDeployment } from '@/hooks/useDeployment';
+
+export interface PlayerGame extends PlayerGameEntry {
+  contract: ContractDeployment;
+}
+
+/**
+ * Every game `address` registered in, across all of the chain's
+ * deployments (archived ones included), newest first within each.
+ */
+export function usePlayerGames(address: Address | undefined): {
+  games: PlayerGame[];
+  isLoading: boolean;
+  /** Some deployment failed to load; its games are missing */
+  failed: boolean;
+  /** The indexer is still backfilling, so older games may be missing */
+  catchingUp: boolean;
+} {
+  const { deployment } = useDeployment();
+
+  const queries = useQueries({
+    queries: deployment.contracts.map((contract) => ({
+      queryKey: ['playerGames', contract.id, address],
+      queryFn: () => fetchPlayerGames(contract.id, address!),
+      enabled: !!address,
+      refetchInterval: 30_000,
+    })),
+  });
+
+  return {
+    games: queries.flatMap((query, i) =>
+      (query.data?.games ?? []).map((entry) => ({ ...entry, contract: deployment.contracts[i] }))
+    ),
+    isLoading: queries.some((query) => query.isLoading),
+    failed: queries.some((query) => query.error),
+    catchingUp: queries.some((query) => query.data && !query.data.caughtUp),
+  };
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useBlockRefetch } from '@/hooks/useBlockRefetch';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useScoringMode } from '@/hooks/useScoringMode';
+import { fetchRoundStandingInputs } from '@/lib/gameHelpers';
+import { computeRoundStandings, RoundStandings, StandingInput } from '@/lib/roundStandings';
+import { ethScoringMode } from '@/lib/scoring';
+import { Round } from '@/lib/decoders';
+
+/**
+ * Projected standings for a round. The game page, sidebar and finalize
+ * button share one query per round, so they always show the same
+ * eliminations. Switching the scoring mode re-ranks without refetching.
+ * With `live`, the standings reload as new blocks arrive.
+ */
+export function useRoundStandings(
+  gameId: number,
+  roundNumber: number,
+  enabled = true,
+  live = false
+): {
+  standings: RoundStandings | undefined;
+  /** The round and balances the standings were computed from, for what-if recomputation */
+  round: Round | undefined;
+  players: StandingInput[] | undefined;
+  isLoading: boolean;
+} {
+  const { contract } = useDeployment();
+  const mode = ethScoringMode(useScoringMode().mode);
+  const active = enabled && gameId > 0 && roundNumber > 0;
+
+  const { data, isLoading, dataUpdatedAt, refetch } = useQuery({
+    queryKey: ['roundStandings', contract.id, gameId, roundNumber],
+    queryFn: () => fetchRoundStandingInputs(contract, BigInt(gameId), BigInt(roundNumber)),
+    enabled: active,
+    staleTime: 15_000,
+    refetchInterval: 30_000,
+  });
+
+  useBlockRefetch(contract.chainId, active && live, dataUpdatedAt, refetch);
+
+  const standings = useMemo(
+    () => (data ? computeRoundStandings(data.players, data.round, mode) : undefined),
+    [data, mode]
+  );
+
+  return { standings, round: data?.round, players: data?.players, isLoading: isLoading && active };
+}
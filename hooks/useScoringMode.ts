@@ -0,0 +1,20 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import { DEFAULT_SCORING_MODE, ScoringMode } from '@/lib/scoring';
+
+interface ScoringModeValue {
+  mode: ScoringMode;
+  setMode: (mode: ScoringMode) => void;
+}
+
+/** Scoring mode for everything below it; the game page owns the state */
+export const ScoringModeContext = createContext<ScoringModeValue>({
+  mode: DEFAULT_SCORING_MODE,
+  setMode: () => {},
+});
+
+/** Which balance scores, ranks and elimination previews are computed from */
+export function useScoringMode(): ScoringModeValue {
+  return useContext(ScoringModeContext);
+}
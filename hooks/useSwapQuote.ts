@@ -2,9 +2,8 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { publicClient } from '@/lib/contract';
+import { useDeployment } from '@/hooks/useDeployment';
 import {
-  QUOTER_V2_ADDRESS,
   QUOTER_V2_ABI,
   DEFAULT_FEE,
   Token,
@@ -49,8 +48,9 @@ export function useSwapQuote({
     };
   }, [amountIn]);
 
-  const tokenInAddress = getSwapAddress(tokenIn);
-  const tokenOutAddress = getSwapAddress(tokenOut);
+  const { chainId, deployment, publicClient } = useDeployment();
+  const tokenInAddress = getSwapAddress(tokenIn, deployment.uniswap.weth);
+  const tokenOutAddress = getSwapAddress(tokenOut, deployment.uniswap.weth);
 
   const enabled =
     !!debouncedAmountIn &&
@@ -58,12 +58,12 @@ export function useSwapQuote({
     tokenInAddress.toLowerCase() !== tokenOutAddress.toLowerCase();
 
   const { data, isLoading, error, refetch } = useQuery({
-    queryKey: ['swapQuote', tokenInAddress, tokenOutAddress, debouncedAmountIn?.toString(), fee],
+    queryKey: ['swapQuote', chainId, tokenInAddress, tokenOutAddress, debouncedAmountIn?.toString(), fee],
     queryFn: async () => {
       if (!debouncedAmountIn) throw new Error('No amount');
 
       const result = await publicClient.simulateContract({
-        address: QUOTER_V2_ADDRESS,
+        address: deployment.uniswap.quoterV2,
         abi: QUOTER_V2_ABI,
         functionName: 'quoteExactInputSingle',
         args: [
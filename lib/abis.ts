@@ -0,0 +1,35 @@
+import { Abi } from 'viem';
+import contractAbi from './contract.json';
+
+/**
+ * ABI layouts of deployed WalletRoyale versions:
+ * - v1: first Base Sepolia contract, whose `games()` tuple predates `totalGasSpent`
+ * - v2: lib/contract.json
+ */
+export type AbiVersion = 'v1' | 'v2';
+
+export const CURRENT_ABI_VERSION: AbiVersion = 'v2';
+
+interface AbiItem {
+  type: string;
+  name?: string;
+  outputs?: { name: string }[];
+}
+
+/** Copy of an ABI with some outputs of one function removed */
+function withoutOutputs(abi: readonly AbiItem[], functionName: string, outputNames: string[]): Abi {
+  return abi.map((item) =>
+    item.type === 'function' && item.name === functionName && item.outputs
+      ? { ...item, outputs: item.outputs.filter((output) => !outputNames.includes(output.name)) }
+      : item
+  ) as unknown as Abi;
+}
+
+const ABIS: Record<AbiVersion, Abi> = {
+  v1: withoutOutputs(contractAbi.abi, 'games', ['totalGasSpent']),
+  v2: contractAbi.abi as Abi,
+};
+
+export function getContractAbi(version: AbiVersion = CURRENT_ABI_VERSION): Abi {
+  return ABIS[version];
+}
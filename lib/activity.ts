@@ -0,0 +1,104 @@
+import { Hash } from 'viem';
+import { SerializedEvent } from './events';
+
+// ============ Types ============
+
+/** Events shown in a game's activity feed */
+export const ACTIVITY_EVENTS = [
+  'PlayerRegistered',
+  'RoundStarted',
+  'RoundSnapshotTaken',
+  'PlayerMarkedForElimination',
+  'PlayerEliminated',
+  'PenaltyApplied',
+  'ViolationReported',
+  'RoundFinalized',
+  'FinalizationRewardPaid',
+  'GasReimbursed',
+  'PrizePaid',
+] as const;
+
+export type ActivityType = (typeof ACTIVITY_EVENTS)[number];
+
+export const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  PlayerRegistered: 'Registered',
+  RoundStarted: 'Started',
+  RoundSnapshotTaken: 'Snapshot',
+  PlayerMarkedForElimination: 'Marked',
+  PlayerEliminated: 'Eliminated',
+  PenaltyApplied: 'Penalty',
+  ViolationReported: 'Violation',
+  RoundFinalized: 'Round finalized',
+  FinalizationRewardPaid: 'Finalizer reward',
+  GasReimbursed: 'Gas reimbursed',
+  PrizePaid: 'Prize',
+};
+
+/** Arg holding the wallet each event is about, for the player filter */
+const PLAYER_ARGS: Record<ActivityType, string | null> = {
+  PlayerRegistered: 'player',
+  RoundStarted: 'starter',
+  RoundSnapshotTaken: 'player',
+  PlayerMarkedForElimination: 'player',
+  PlayerEliminated: 'player',
+  PenaltyApplied: 'player',
+  ViolationReported: 'player',
+  RoundFinalized: null,
+  FinalizationRewardPaid: 'finalizer',
+  GasReimbursed: 'oracle',
+  PrizePaid: 'winner',
+};
+
+export interface ActivityEntry {
+  /** `blockNumber:logIndex`, unique per log */
+  id: string;
+  type: ActivityType;
+  args: SerializedEvent['args'];
+  blockNumber: number;
+  transactionHash: Hash;
+  /** Wallet the entry is about; null for round-wide events */
+  player: string | null;
+  /** Round the event belongs to; null before the game starts and for payouts */
+  round: number | null;
+}
+
+// ============ Activity ============
+
+function isActivityType(eventName: string): eventName is ActivityType {
+  return (ACTIVITY_EVENTS as readonly string[]).includes(eventName);
+}
+
+/**
+ * Feed entries from a game's indexed events (oldest first, as the API
+ * returns them), newest first. Events without a round number are placed in
+ * the round that was running when they were emitted.
+ */
+export function buildActivity(events: SerializedEvent[]): ActivityEntry[] {
+  const entries: ActivityEntry[] = [];
+  let currentRound = 0;
+
+  for (const event of events) {
+    if (!isActivityType(event.eventName)) continue;
+    const type = event.eventName;
+    if (type === 'RoundStarted') currentRound = 1;
+
+    const playerArg = PLAYER_ARGS[type];
+    const roundArg = event.args.roundNumber;
+    let round: number | null = roundArg !== undefined ? Number(roundArg) : currentRound || null;
+    if (type === 'PlayerRegistered' || type === 'PrizePaid') round = null;
+
+    entries.push({
+      id: `${event.blockNumber}:${event.logIndex}`,
+      type,
+      args: event.args,
+      blockNumber: Number(event.blockNumber),
+      transactionHash: event.transactionHash,
+      player: playerArg ? String(event.args[playerArg]) : null,
+      round,
+    });
+
+    if (type === 'RoundFinalized') currentRound = Number(event.args.roundNumber) + 1;
+  }
+
+  return entries.reverse();
+}
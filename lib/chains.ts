@@ -1,4 +1,9 @@
-import { baseSepolia } from 'viem/chains';
+import { Chain } from 'viem';
+import { DEFAULT_CHAIN_ID, DEPLOYMENTS } from './deployments';
 
-export const supportedChains = [baseSepolia];
-export const defaultChain = baseSepolia;
+/** Default chain first, as wagmi starts on the first chain in the list */
+export const supportedChains = [
+  DEPLOYMENTS[DEFAULT_CHAIN_ID].chain,
+  ...Object.values(DEPLOYMENTS).filter((d) => d.chain.id !== DEFAULT_CHAIN_ID).map((d) => d.chain),
+] as [Chain, ...Chain[]];
+export const defaultChain = supportedChains[0];
@@ -1,10 +1,8 @@
-import { createPublicClient, http, getContract, Address } from 'viem';
-import { baseSepolia } from 'viem/chains';
+import { Chain, PublicClient, Transport } from 'viem';
+import { createRpcClient } from './rpc';
+import { getDeployment } from './deployments';
 import contractAbi from './contract.json';
 
-export const CONTRACT_ADDRESS = (process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || '0x8BB800e7c68f583dBEfa627a4E8031f4880Fc8Af') as Address;
-export const CHAIN_ID = parseInt(process.env.NEXT_PUBLIC_CHAIN_ID || '84532');
-
 // Validate ABI structure
 if (!contractAbi || !contractAbi.abi || !Array.isArray(contractAbi.abi)) {
   throw new Error('Invalid contract ABI structure. Expected { abi: [...] }');
@@ -13,20 +11,18 @@ if (!contractAbi || !contractAbi.abi || !Array.isArray(contractAbi.abi)) {
 // Export ABI for use in components
 export const contractABI = contractAbi.abi;
 
-// Create public client for read operations
-// Use public Base Sepolia RPC to avoid rate limits and CORS issues
-export const publicClient = createPublicClient({
-  chain: baseSepolia,
-  transport: http('https://sepolia.base.org', {
-    retryCount: 3,
-    retryDelay: 1000,
-    timeout: 10000,
-  }),
-});
+const clients = new Map<number, PublicClient<Transport, Chain>>();
 
-// Contract instance for read operations
-export const contract = getContract({
-  address: CONTRACT_ADDRESS,
-  abi: contractABI,
-  client: publicClient,
-});
+/**
+ * Shared public client for read operations on a chain (default chain when
+ * omitted). One client per chain, over the RPC URLs in lib/deployments.ts.
+ */
+export function getPublicClient(chainId?: number): PublicClient<Transport, Chain> {
+  const deployment = getDeployment(chainId);
+  let client = clients.get(deployment.chain.id);
+  if (!client) {
+    client = createRpcClient(deployment.chain, deployment.rpcUrls);
+    clients.set(deployment.chain.id, client);
+  }
+  return client;
+}
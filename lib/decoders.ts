@@ -0,0 +1,270 @@
+import { Address } from 'viem';
+import { AbiVersion, CURRENT_ABI_VERSION, getContractAbi } from './abis';
+
+// ============ Decoded Types ============
+
+/** `games(gameId)` */
+export interface Game {
+  gameId: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  currentRound: bigint;
+  totalRounds: bigint;
+  roundDuration: bigint;
+  playerCount: bigint;
+  prizePool: bigint;
+  active: boolean;
+  finalized: boolean;
+  cancelled: boolean;
+  entryFee: bigint;
+  registrationDeadline: bigint;
+  minPlayers: bigint;
+  operationsFund: bigint;
+  platformFee: bigint;
+  totalGasReimbursed: bigint;
+  totalGasSpent: bigint;
+}
+
+/** `players(gameId, address)` */
+export interface Player {
+  wallet: Address;
+  squareIndex: number;
+  startETH: bigint;
+  startUSDC: bigint;
+  startAERO: bigint;
+  startCAKE: bigint;
+  startValueUSDC: bigint;
+  penaltyETH: bigint;
+  penaltyUSDC: bigint;
+  penaltyAERO: bigint;
+  penaltyCAKE: bigint;
+  alive: boolean;
+  registered: boolean;
+  markedForElimination: boolean;
+  eliminationReason: string;
+  registrationTime: bigint;
+  eliminationRound: bigint;
+}
+
+/** `getPlayer(gameId, address)` — the subset of `Player` the contract exposes through its getter */
+export type PlayerSummary = Pick<
+  Player,
+  | 'squareIndex'
+  | 'startValueUSDC'
+  | 'penaltyETH'
+  | 'penaltyUSDC'
+  | 'penaltyAERO'
+  | 'penaltyCAKE'
+  | 'alive'
+  | 'eliminationReason'
+>;
+
+/** `rounds(gameId, roundNumber)` */
+export interface Round {
+  roundNumber: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  alivePlayers: bigint;
+  cutoffRank: bigint;
+  finalized: boolean;
+}
+
+/** `getGameFinancials(gameId)` */
+export interface Financials {
+  prizePool: bigint;
+  operationsFund: bigint;
+  platformFee: bigint;
+  totalGasReimbursed: bigint;
+}
+
+/** `getAdjustedBalances(gameId, address)` — balances after penalties */
+export interface AdjustedBalances {
+  eth: bigint;
+  usdc: bigint;
+  aero: bigint;
+  cake: bigint;
+}
+
+// ============ ABI Layout ============
+
+interface AbiParam {
+  name: string;
+  type: string;
+}
+
+interface AbiFunction {
+  type: string;
+  name?: string;
+  outputs?: AbiParam[];
+}
+
+type FieldKind = 'bigint' | 'number' | 'boolean' | 'string' | 'address';
+
+type Schema<T> = { [K in keyof T]: FieldKind };
+
+/**
+ * Resolve the output positions of a view function from the ABI so decoders
+ * follow the contract layout instead of hardcoded indexes. Outputs without a
+ * name (e.g. getAdjustedBalances) are keyed by position.
+ */
+function outputLayout(functionName: string, version: AbiVersion): Map<string, number> {
+  const entry = (getContractAbi(version) as readonly AbiFunction[]).find(
+    (item) => item.type === 'function' && item.name === functionName
+  );
+  if (!entry?.outputs) {
+    throw new Error(`Contract ABI has no outputs for ${functionName}()`);
+  }
+  return new Map(entry.outputs.map((output, index) => [output.name || `_${index}`, index]));
+}
+
+function coerce(value: unknown, kind: FieldKind): unknown {
+  switch (kind) {
+    case 'bigint':
+      return value === undefined || value === null ? 0n : BigInt(value as bigint | number | string);
+    case 'number':
+      return value === undefined || value === null ? 0 : Number(value);
+    case 'boolean':
+      return value === true;
+    case 'string':
+      return typeof value === 'string' ? value : '';
+    case 'address':
+      return (typeof value === 'string' ? value : '0x0000000000000000000000000000000000000000') as Address;
+  }
+}
+
+/**
+ * Build a decoder for a multi-output view function. viem returns these as
+ * positional arrays; named objects are accepted too so callers never care.
+ * Pass the ABI version the result was read with: fields an older contract
+ * doesn't have (e.g. v1 `games()` without totalGasSpent) decode as zero.
+ */
+function createDecoder<T>(
+  functionName: string,
+  schema: Schema<T>,
+  outputNames?: Partial<Record<keyof T, string>>
+): (raw: unknown, version?: AbiVersion) => T {
+  const fieldsFor = (version: AbiVersion) => {
+    const layout = outputLayout(functionName, version);
+    return (Object.keys(schema) as (keyof T & string)[]).map((key) => {
+      const outputName = outputNames?.[key] ?? key;
+      const index = layout.get(outputName);
+      if (index === undefined && version === CURRENT_ABI_VERSION) {
+        throw new Error(`Contract ABI ${functionName}() has no output named "${outputName}"`);
+      }
+      return { key, outputName, index, kind: schema[key] };
+    });
+  };
+  // The current layout is checked eagerly so ABI drift fails at startup
+  const layouts = new Map([[CURRENT_ABI_VERSION, fieldsFor(CURRENT_ABI_VERSION)]]);
+
+  return (raw: unknown, version: AbiVersion = CURRENT_ABI_VERSION): T => {
+    if (raw === null || typeof raw !== 'object') {
+      throw new Error(`Cannot decode ${functionName}() result: expected a tuple`);
+    }
+    let fields = layouts.get(version);
+    if (!fields) {
+      fields = fieldsFor(version);
+      layouts.set(version, fields);
+    }
+    const decoded = {} as Record<string, unknown>;
+    for (const { key, outputName, index, kind } of fields) {
+      const value = Array.isArray(raw)
+        ? (index === undefined ? undefined : raw[index])
+        : (raw as Record<string, unknown>)[outputName] ?? (index === undefined ? undefined : (raw as Record<string, unknown>)[index]);
+      decoded[key] = coerce(value, kind);
+    }
+    return decoded as T;
+  };
+}
+
+// ============ Decoders ============
+
+export const decodeGame = createDecoder<Game>('games', {
+  gameId: 'bigint',
+  startTime: 'bigint',
+  endTime: 'bigint',
+  currentRound: 'bigint',
+  totalRounds: 'bigint',
+  roundDuration: 'bigint',
+  playerCount: 'bigint',
+  prizePool: 'bigint',
+  active: 'boolean',
+  finalized: 'boolean',
+  cancelled: 'boolean',
+  entryFee: 'bigint',
+  registrationDeadline: 'bigint',
+  minPlayers: 'bigint',
+  operationsFund: 'bigint',
+  platformFee: 'bigint',
+  totalGasReimbursed: 'bigint',
+  totalGasSpent: 'bigint',
+});
+
+export const decodePlayer = createDecoder<Player>('players', {
+  wallet: 'address',
+  squareIndex: 'number',
+  startETH: 'bigint',
+  startUSDC: 'bigint',
+  startAERO: 'bigint',
+  startCAKE: 'bigint',
+  startValueUSDC: 'bigint',
+  penaltyETH: 'bigint',
+  penaltyUSDC: 'bigint',
+  penaltyAERO: 'bigint',
+  penaltyCAKE: 'bigint',
+  alive: 'boolean',
+  registered: 'boolean',
+  markedForElimination: 'boolean',
+  eliminationReason: 'string',
+  registrationTime: 'bigint',
+  eliminationRound: 'bigint',
+});
+
+export const decodePlayerSummary = createDecoder<PlayerSummary>('getPlayer', {
+  squareIndex: 'number',
+  startValueUSDC: 'bigint',
+  penaltyETH: 'bigint',
+  penaltyUSDC: 'bigint',
+  penaltyAERO: 'bigint',
+  penaltyCAKE: 'bigint',
+  alive: 'boolean',
+  eliminationReason: 'string',
+});
+
+export const decodeRound = createDecoder<Round>('rounds', {
+  roundNumber: 'bigint',
+  startTime: 'bigint',
+  endTime: 'bigint',
+  alivePlayers: 'bigint',
+  cutoffRank: 'bigint',
+  finalized: 'boolean',
+});
+
+export const decodeFinancials = createDecoder<Financials>('getGameFinancials', {
+  prizePool: 'bigint',
+  operationsFund: 'bigint',
+  platformFee: 'bigint',
+  totalGasReimbursed: 'bigint',
+});
+
+/** Outputs are unnamed in the ABI; the contract documents them as ETH, USDC, AERO, CAKE. */
+export const decodeAdjustedBalances = createDecoder<AdjustedBalances>(
+  'getAdjustedBalances',
+  { eth: 'bigint', usdc: 'bigint', aero: 'bigint', cake: 'bigint' },
+  { eth: '_0', usdc: '_1', aero: '_2', cake: '_3' }
+);
+
+// ============ Serialization ============
+
+/** JSON-safe `Game` as returned by the API routes (bigints as decimal strings) */
+export type SerializedGame = {
+  [K in keyof Game]: Game[K] extends bigint ? string : Game[K];
+};
+
+export function serializeGame(game: Game): SerializedGame {
+  const serialized = {} as Record<string, unknown>;
+  for (const [key, value] of Object.entries(game)) {
+    serialized[key] = typeof value === 'bigint' ? value.toString() : value;
+  }
+  return serialized as SerializedGame;
+}
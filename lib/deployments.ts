@@ -0,0 +1,239 @@
+import { Address, Chain, defineChain } from 'viem';
+import { base, baseSepolia, foundry } from 'viem/chains';
+import { Token } from './uniswap';
+import { AbiVersion, CURRENT_ABI_VERSION } from './abis';
+
+// ============ Types ============
+
+export interface UniswapAddresses {
+  swapRouter: Address;
+  quoterV2: Address;
+  weth: Address;
+}
+
+/**
+ * One WalletRoyale contract. A redeploy adds an entry rather than replacing
+ * the old one, so earlier games stay viewable.
+ */
+export interface ContractDeployment {
+  /** URL segment and API param, e.g. /game/base-sepolia/12 */
+  id: string;
+  label: string;
+  chainId: number;
+  address: Address;
+  abiVersion: AbiVersion;
+  /**
+   * Block the contract was deployed in; the event indexer starts here. Null
+   * when not configured: the indexer then finds it from the contract's code.
+   */
+  startBlock: bigint | null;
+  /** False for superseded contracts kept for their history */
+  current: boolean;
+}
+
+/** Everything the app needs to run against one chain */
+export interface Deployment {
+  chain: Chain;
+  /** Contract new games are created on */
+  contract: ContractDeployment;
+  /** Every known contract on the chain, current first */
+  contracts: ContractDeployment[];
+  /** RPC endpoints in fallback order */
+  rpcUrls: string[];
+  /** Block explorer base URL, null when the chain has none (local devnet) */
+  explorerUrl: string | null;
+  uniswap: UniswapAddresses;
+  tokens: Token[];
+}
+
+/** Superseded contract on a chain */
+interface LegacyContract {
+  id: string;
+  label: string;
+  address: Address;
+  abiVersion: AbiVersion;
+  startBlock: bigint | null;
+}
+
+interface Candidate extends Omit<Deployment, 'contract' | 'contracts'> {
+  id: string;
+  contractAddress: string | undefined;
+  startBlock: bigint | null;
+  legacy: LegacyContract[];
+}
+
+// ============ Helpers ============
+
+/**
+ * Start block override from an env var; null leaves it to the indexer.
+ * Empty values count as unset, and anything that isn't a block number is
+ * ignored with a warning rather than failing at import.
+ */
+function envBlock(name: string, value: string | undefined): bigint | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  if (!/^\d+$/.test(trimmed)) {
+    console.warn(`Ignoring ${name}=${value}: not a block number`);
+    return null;
+  }
+  return BigInt(trimmed);
+}
+
+/** Comma-separated URL list from an env var, or the fallback */
+export function parseUrls(value: string | undefined, fallback: string): string[] {
+  return (value || fallback).split(',').map((url) => url.trim()).filter(Boolean);
+}
+
+function tokenList(weth: Address, usdc: Address): Token[] {
+  return [
+    { address: 'native', symbol: 'ETH', name: 'Ether', decimals: 18, logoColor: '#627EEA' },
+    { address: weth, symbol: 'WETH', name: 'Wrapped Ether', decimals: 18, logoColor: '#627EEA' },
+    { address: usdc, symbol: 'USDC', name: 'USD Coin', decimals: 6, logoColor: '#2775CA' },
+  ];
+}
+
+// ============ Chains ============
+
+const BASE_SEPOLIA_UNISWAP: UniswapAddresses = {
+  swapRouter: '0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4',
+  quoterV2: '0xC5290058841028F1614F3A6F0F5816cAd0df5E27',
+  weth: '0x4200000000000000000000000000000000000006',
+};
+
+const BASE_UNISWAP: UniswapAddresses = {
+  swapRouter: '0x2626664c2603336E57B271c5C0b26F421741e481',
+  quoterV2: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a',
+  weth: '0x4200000000000000000000000000000000000006',
+};
+
+/**
+ * Local anvil chain. Expected to fork Base Sepolia
+ * (`anvil --fork-url https://sepolia.base.org`), so Multicall3, Uniswap
+ * and the tokens are at their Base Sepolia addresses.
+ */
+export const anvil = defineChain({
+  ...foundry,
+  name: 'Anvil',
+  contracts: {
+    multicall3: { address: '0xca11bde05977b3631167028862be2a173976ca11' },
+  },
+});
+
+// NEXT_PUBLIC_* vars are inlined at build time, so each has to be spelled out
+const CANDIDATES: Candidate[] = [
+  {
+    id: 'base-sepolia',
+    chain: baseSepolia,
+    contractAddress: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || '0x8BB800e7c68f583dBEfa627a4E8031f4880Fc8Af',
+    startBlock: envBlock('INDEXER_START_BLOCK', process.env.INDEXER_START_BLOCK),
+    rpcUrls: parseUrls(process.env.NEXT_PUBLIC_RPC_URLS, 'https://sepolia.base.org'),
+    explorerUrl: baseSepolia.blockExplorers.default.url,
+    uniswap: BASE_SEPOLIA_UNISWAP,
+    tokens: tokenList(BASE_SEPOLIA_UNISWAP.weth, '0x036CbD53842c5426634e7929541eC2318f3dCF7e'),
+    legacy: [
+      {
+        id: 'base-sepolia-v1',
+        label: 'Season 1',
+        address: '0xF2D5b37362466B2efAabbDfBD831CBC0d7ff254F',
+        abiVersion: 'v1',
+        startBlock: envBlock('INDEXER_START_BLOCK_V1', process.env.INDEXER_START_BLOCK_V1),
+      },
+    ],
+  },
+  {
+    id: 'base',
+    chain: base,
+    contractAddress: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS_BASE,
+    startBlock: envBlock('INDEXER_START_BLOCK_BASE', process.env.INDEXER_START_BLOCK_BASE),
+    rpcUrls: parseUrls(process.env.NEXT_PUBLIC_RPC_URLS_BASE, 'https://mainnet.base.org'),
+    explorerUrl: base.blockExplorers.default.url,
+    uniswap: BASE_UNISWAP,
+    tokens: tokenList(BASE_UNISWAP.weth, '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'),
+    legacy: [],
+  },
+  {
+    id: 'anvil',
+    chain: anvil,
+    contractAddress: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS_ANVIL,
+    startBlock: envBlock('INDEXER_START_BLOCK_ANVIL', process.env.INDEXER_START_BLOCK_ANVIL),
+    rpcUrls: parseUrls(process.env.NEXT_PUBLIC_RPC_URLS_ANVIL, 'http://127.0.0.1:8545'),
+    explorerUrl: null,
+    uniswap: BASE_SEPOLIA_UNISWAP,
+    tokens: tokenList(BASE_SEPOLIA_UNISWAP.weth, '0x036CbD53842c5426634e7929541eC2318f3dCF7e'),
+    legacy: [],
+  },
+];
+
+function toDeployment({ id, contractAddress, startBlock, legacy, ...rest }: Candidate): Deployment {
+  const address = contractAddress as Address;
+  const contract: ContractDeployment = {
+    id,
+    label: 'Latest',
+    chainId: rest.chain.id,
+    address,
+    abiVersion: CURRENT_ABI_VERSION,
+    startBlock,
+    current: true,
+  };
+  const history = legacy
+    // The current address may be pointed back at an old contract
+    .filter((old) => old.address.toLowerCase() !== address.toLowerCase())
+    .map((old): ContractDeployment => ({ ...old, chainId: rest.chain.id, current: false }));
+  return { ...rest, contract, contracts: [contract, ...history] };
+}
+
+// ============ Registry ============
+
+/** Chains with a configured WalletRoyale contract, keyed by chain id */
+export const DEPLOYMENTS: Record<number, Deployment> = Object.fromEntries(
+  CANDIDATES
+    .filter((candidate) => !!candidate.contractAddress)
+    .map((candidate) => [candidate.chain.id, toDeployment(candidate)])
+);
+
+/** Every known contract across chains, keyed by id */
+const CONTRACTS = new Map<string, ContractDeployment>(
+  Object.values(DEPLOYMENTS).flatMap((deployment) => deployment.contracts.map((contract) => [contract.id, contract]))
+);
+
+const requestedDefault = parseInt(process.env.NEXT_PUBLIC_CHAIN_ID || String(baseSepolia.id));
+
+/** Chain used when no wallet is connected, or the wallet is on an unknown chain */
+export const DEFAULT_CHAIN_ID = DEPLOYMENTS[requestedDefault] ? requestedDefault : baseSepolia.id;
+
+export function isSupportedChain(chainId: number | undefined): chainId is number {
+  return chainId !== undefined && chainId in DEPLOYMENTS;
+}
+
+/** Deployment for a chain, falling back to the default chain */
+export function getDeployment(chainId?: number): Deployment {
+  return DEPLOYMENTS[isSupportedChain(chainId) ? chainId : DEFAULT_CHAIN_ID];
+}
+
+export function getContractDeployment(id: string): ContractDeployment | undefined {
+  return CONTRACTS.get(id);
+}
+
+/**
+ * Contract named by API query params: `deployment` (a contract id), else the
+ * current contract on `chainId`, else on the default chain. Null when either
+ * param names something unknown.
+ */
+export function parseDeploymentParams(params: URLSearchParams): ContractDeployment | null {
+  const id = params.get('deployment');
+  if (id) return getContractDeployment(id) ?? null;
+  const chainParam = params.get('chainId');
+  if (!chainParam) return getDeployment().contract;
+  const chainId = Number(chainParam);
+  return isSupportedChain(chainId) ? DEPLOYMENTS[chainId].contract : null;
+}
+
+/** Explorer link for a transaction, or null on chains without an explorer */
+export function explorerTxUrl(deployment: Deployment, hash: string): string | null {
+  return deployment.explorerUrl ? `${deployment.explorerUrl}/tx/${hash}` : null;
+}
+
+/** Explorer link for an address, or null on chains without an explorer */
+export function explorerAddressUrl(deployment: Deployment, address: string): string | null {
+  return deployment.explorerUrl ? `${deployment.explorerUrl}/address/${address}` : null;
+}
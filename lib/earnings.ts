@@ -0,0 +1,38 @@
+import { Address } from 'viem';
+import { IndexedEvent } from './events';
+import { PlayerRewards } from './playerGamesApi';
+
+// ============ Keeper rewards ============
+
+/** Reward kind, amount arg and recipient arg of each keeper reward event */
+export const REWARD_EVENTS: Record<string, { kind: keyof PlayerRewards; arg: string; recipient: string }> = {
+  RoundStarted: { kind: 'start', arg: 'reward', recipient: 'starter' },
+  FinalizationRewardPaid: { kind: 'finalization', arg: 'rewardAmount', recipient: 'finalizer' },
+  GameCancelled: { kind: 'cancel', arg: 'reward', recipient: 'canceler' },
+};
+
+/** The keeper reward an event pays, null for other events */
+export function rewardOf(event: IndexedEvent): { kind: keyof PlayerRewards; recipient: Address; amount: bigint } | null {
+  const reward = REWARD_EVENTS[event.eventName];
+  if (!reward) return null;
+  return {
+    kind: reward.kind,
+    recipient: String(event.args[reward.recipient]) as Address,
+    amount: (event.args[reward.arg] as bigint | undefined) ?? 0n,
+  };
+}
+
+// ============ Net ============
+
+/** What a wallet paid into and got back from its games, in wei */
+export interface Earnings {
+  entryFees: bigint;
+  prizes: bigint;
+  refunds: bigint;
+  rewards: bigint;
+}
+
+/** Prizes, refunds and keeper rewards minus entry fees; penalties only cost score, not ETH */
+export function netEarnings({ entryFees, prizes, refunds, rewards }: Earnings): bigint {
+  return prizes + refunds + rewards - entryFees;
+}
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Address, Hash } from 'viem';
+import { IndexedEvent } from './events';
+
+/** Directory holding each indexed contract's checkpoint and event log */
+const DATA_DIR = process.env.INDEXER_DATA_DIR || path.join(process.cwd(), '.data');
+
+const STORE_VERSION = 3;
+
+export interface Checkpoint {
+  blockNumber: bigint;
+  blockHash: Hash;
+}
+
+export interface EventStoreState {
+  version: number;
+  chainId: number;
+  contract: Address;
+  /** Block the contract was deployed in, once known; indexing starts here */
+  startBlock: bigint | null;
+  /** Last fully ingested block; everything up to and including it is in `events` */
+  checkpoint: Checkpoint | null;
+  events: IndexedEvent[];
+}
+
+/** The small part of the store rewritten on every checkpoint */
+type StoreMeta = Omit<EventStoreState, 'events'>;
+
+// bigints don't survive JSON, so they're boxed on disk
+function replacer(_key: string, value: unknown) {
+  return typeof value === 'bigint' ? { $bigint: value.toString() } : value;
+}
+
+function reviver(_key: string, value: unknown) {
+  if (value && typeof value === 'object' && '$bigint' in value) {
+    return BigInt((value as { $bigint: string }).$bigint);
+  }
+  return value;
+}
+
+function storePaths(chainId: number, contract: Address): { meta: string; log: string } {
+  const base = path.join(DATA_DIR, `events-${chainId}-${contract.toLowerCase()}`);
+  return { meta: `${base}.json`, log: `${base}.ndjson` };
+}
+
+function toLines(events: IndexedEvent[]): string {
+  return events.map((event) => `${JSON.stringify(event, replacer)}\n`).join('');
+}
+
+async function writeAtomic(file: string, contents: string): Promise<void> {
+  await fs.writeFile(`${file}.tmp`, contents);
+  await fs.rename(`${file}.tmp`, file);
+}
+
+async function writeMeta(state: EventStoreState): Promise<void> {
+  const meta: StoreMeta = {
+    version: state.version,
+    chainId: state.chainId,
+    contract: state.contract,
+    startBlock: state.startBlock,
+    checkpoint: state.checkpoint,
+  };
+  await writeAtomic(storePaths(state.chainId, state.contract).meta, JSON.stringify(meta, replacer));
+}
+
+/**
+ * Load the store for a contract, or an empty one when nothing has been
+ * indexed yet (or the files are from an older store version). Events logged
+ * past the checkpoint by an interrupted append are dropped.
+ */
+export async function loadEventStore(chainId: number, contract: Address): Promise<EventStoreState> {
+  const empty: EventStoreState = { version: STORE_VERSION, chainId, contract, startBlock: null, checkpoint: null, events: [] };
+  const paths = storePaths(chainId, contract);
+  try {
+    const meta = JSON.parse(await fs.readFile(paths.meta, 'utf8'), reviver) as StoreMeta;
+    if (meta.version !== STORE_VERSION) return empty;
+
+    const lines = await fs.readFile(paths.log, 'utf8').catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return '';
+      throw error;
+    });
+    const logged = lines.split('\n').filter(Boolean).map((line) => JSON.parse(line, reviver) as IndexedEvent);
+    const through = meta.checkpoint?.blockNumber ?? -1n;
+    const events = logged.filter((event) => event.blockNumber <= through);
+
+    const state: EventStoreState = { ...meta, events };
+    if (events.length !== logged.length) await saveEventStore(state);
+    return state;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('Event store unreadable, re-indexing from scratch:', error);
+    }
+    return empty;
+  }
+}
+
+/**
+ * Persist newly ingested events: append them to the log, then move the
+ * checkpoint. `state` should already hold the events and the new checkpoint.
+ */
+export async function appendToEventStore(state: EventStoreState, events: IndexedEvent[]): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  if (events.length > 0) {
+    await fs.appendFile(storePaths(state.chainId, state.contract).log, toLines(events));
+  }
+  await writeMeta(state);
+}
+
+/** Rewrite the whole store atomically, e.g. after a reorg dropped events */
+export async function saveEventStore(state: EventStoreState): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  // Checkpoint first: if the log write is cut short, load drops whatever lies past it
+  await writeMeta(state);
+  await writeAtomic(storePaths(state.chainId, state.contract).log, toLines(state.events));
+}
@@ -0,0 +1,62 @@
+import { Address, Hash } from 'viem';
+
+/** A decoded contract event as kept by the indexer */
+export interface IndexedEvent {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  blockHash: Hash;
+  logIndex: number;
+  transactionHash: Hash;
+  /** Transaction sender; recorded for GameCreated so games can be filtered by creator */
+  from?: Address;
+}
+
+/** JSON-safe `IndexedEvent` as returned by the API routes (bigints as decimal strings) */
+export interface SerializedEvent {
+  eventName: string;
+  args: Record<string, string | number | boolean>;
+  blockNumber: string;
+  logIndex: number;
+  transactionHash: Hash;
+}
+
+export interface EventsResponse {
+  events: SerializedEvent[];
+  /** Last block the indexer has confirmed, null before the first sync */
+  indexedThrough: string | null;
+  /** False while the indexer is still backfilling toward the confirmed head */
+  caughtUp: boolean;
+}
+
+export function serializeEvent(event: IndexedEvent): SerializedEvent {
+  const args: SerializedEvent['args'] = {};
+  for (const [key, value] of Object.entries(event.args)) {
+    args[key] = typeof value === 'bigint' ? value.toString() : (value as string | number | boolean);
+  }
+  return {
+    eventName: event.eventName,
+    args,
+    blockNumber: event.blockNumber.toString(),
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash,
+  };
+}
+
+/**
+ * Fetch indexed events for a game from the API (client side).
+ * Pass event names to narrow the result, e.g. ['PrizePaid'].
+ */
+export async function fetchGameEvents(
+  deploymentId: string,
+  gameId: number | bigint | string,
+  eventNames: string[] = []
+): Promise<EventsResponse> {
+  const params = new URLSearchParams({ deployment: deploymentId });
+  if (eventNames.length > 0) params.set('event', eventNames.join(','));
+  const response = await fetch(`/api/game/${gameId}/events?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch events for game #${gameId}: ${response.status}`);
+  }
+  return response.json();
+}
@@ -1,5 +1,12 @@
-import { publicClient, CONTRACT_ADDRESS, contractABI } from './contract';
-import { Address, formatEther } from 'viem';
+import { getPublicClient } from './contract';
+import { getContractAbi } from './abis';
+import { ContractDeployment } from './deployments';
+import { decodeAdjustedBalances, decodePlayer, decodePlayerSummary, decodeRound, Round } from './decoders';
+import { StandingInput } from './roundStandings';
+import { gainPercentOf, ScoringMode } from './scoring';
+import { fetchPriceTable, Portfolio, portfolioGainPercent, PriceTable, unpricedTokenTable, valuePortfolio } from './portfolio';
+import { ERC20_ABI } from './uniswap';
+import { Address, Chain, ContractFunctionParameters, PublicClient, Transport } from 'viem';
 
 export interface PlayerData {
   wallet: Address;
@@ -8,126 +15,250 @@ export interface PlayerData {
   isEliminated: boolean;
   gainPercent: number;
   balance: bigint;
+  /** ETH penalties the contract has applied */
+  penaltyETH: bigint;
+  /** Balance after penalties (`getAdjustedBalances`) */
+  adjustedBalance: bigint;
+  adjustedGainPercent: number;
+  /** Native ETH plus whitelisted tokens, valued through Uniswap */
+  portfolio: Portfolio;
+  portfolioGainPercent: number;
+}
+
+export interface GamePlayersResult {
+  players: PlayerData[];
+  /** Number of RPC requests the load cost (getGamePlayers, the price table and one per multicall batch) */
+  rpcCalls: number;
+}
+
+/** Calls per aggregate3 request; 4 reads per player plus one per whitelisted token */
+const MULTICALL_BATCH_SIZE = 200;
+
+/** Multicall3 exposes native balances so getBalance can ride along in the same batch */
+const MULTICALL3_ABI = [
+  {
+    inputs: [{ name: 'addr', type: 'address' }],
+    name: 'getEthBalance',
+    outputs: [{ name: 'balance', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+type MulticallResult = { status: 'success'; result: unknown } | { status: 'failure'; error: Error };
+
+/** Run calls through Multicall3 in MULTICALL_BATCH_SIZE chunks, counting the requests */
+async function multicallInBatches(
+  publicClient: PublicClient<Transport, Chain>,
+  contracts: ContractFunctionParameters[]
+): Promise<{ results: MulticallResult[]; rpcCalls: number }> {
+  const results: MulticallResult[] = [];
+  let rpcCalls = 0;
+  for (let i = 0; i < contracts.length; i += MULTICALL_BATCH_SIZE) {
+    const batch = await publicClient.multicall({
+      contracts: contracts.slice(i, i + MULTICALL_BATCH_SIZE),
+      allowFailure: true,
+      // Chunking is done here so the call count is known; stop viem splitting further
+      batchSize: 0,
+    }) as MulticallResult[];
+    results.push(...batch);
+    rpcCalls++;
+  }
+  return { results, rpcCalls };
+}
+
+function multicall3Address(publicClient: PublicClient<Transport, Chain>): Address {
+  const address = publicClient.chain.contracts?.multicall3?.address;
+  if (!address) {
+    throw new Error(`Multicall3 is not configured for chain ${publicClient.chain.id}`);
+  }
+  return address;
 }
 
 /**
- * Fetch all players for a game
+ * Fetch all players for a game, ranked by ETH gain % under the scoring mode
  */
-export async function fetchGamePlayers(gameId: bigint): Promise<PlayerData[]> {
+export async function fetchGamePlayers(
+  contract: ContractDeployment,
+  gameId: bigint,
+  mode: ScoringMode = 'raw'
+): Promise<GamePlayersResult> {
   try {
     // Get all player addresses from contract
-    const playerAddresses = await publicClient.readContract({
-      address: CONTRACT_ADDRESS,
-      abi: contractABI,
+    const playerAddresses = await getPublicClient(contract.chainId).readContract({
+      address: contract.address,
+      abi: getContractAbi(contract.abiVersion),
       functionName: 'getGamePlayers',
       args: [gameId],
     }) as Address[];
 
-    // Fetch data for each player
-    const playerPromises = playerAddresses.map((address) =>
-      fetchPlayerData(gameId, address)
-    );
+    const { players, rpcCalls } = await fetchPlayerBatch(contract, gameId, playerAddresses);
 
-    const players = await Promise.all(playerPromises);
-    const validPlayers = players.filter((p): p is PlayerData => p !== null);
-
-    // Calculate rankings
-    const rankings = await calculateRankings(gameId, playerAddresses);
-
-    // Update players with rankings
-    return validPlayers.map((player) => ({
-      ...player,
-      rank: rankings.get(player.wallet) || 999,
-    }));
+    return {
+      players: rankPlayers(players, mode),
+      rpcCalls: rpcCalls + 1,
+    };
   } catch (error) {
     console.error('Error fetching game players:', error);
-    return [];
+    return { players: [], rpcCalls: 0 };
   }
 }
 
 /**
- * Fetch a single player's data (no penalty/adjusted balances; raw ETH only)
+ * Read getPlayer, players, getAdjustedBalances, the native balance and each
+ * whitelisted token balance for every address through Multicall3. Players
+ * whose reads fail are dropped, matching the per-player loader this
+ * replaced. If token prices can't be loaded, portfolios are valued in ETH
+ * alone. Ranks are left at 0 for the caller to fill in.
  */
-export async function fetchPlayerData(
+export async function fetchPlayerBatch(
+  contract: ContractDeployment,
   gameId: bigint,
-  playerAddress: Address
-): Promise<PlayerData | null> {
+  playerAddresses: Address[]
+): Promise<GamePlayersResult> {
+  const publicClient = getPublicClient(contract.chainId);
+  const abi = getContractAbi(contract.abiVersion);
+  const multicallAddress = multicall3Address(publicClient);
+  let prices: PriceTable;
+  let priceCalls: number;
   try {
-    const playerData = await publicClient.readContract({
-      address: CONTRACT_ADDRESS,
-      abi: contractABI,
-      functionName: 'getPlayer',
-      args: [gameId, playerAddress],
-    });
+    ({ prices, rpcCalls: priceCalls } = await fetchPriceTable(contract));
+  } catch (error) {
+    console.error('Error fetching token prices, valuing portfolios in ETH only:', error);
+    prices = unpricedTokenTable(contract.chainId);
+    // The failed getWhitelistedTokens read
+    priceCalls = 1;
+  }
+  const readsPerPlayer = 4 + prices.tokens.length;
+  const contracts: ContractFunctionParameters[] = playerAddresses.flatMap((address) => [
+    { address: contract.address, abi, functionName: 'getPlayer', args: [gameId, address] },
+    { address: contract.address, abi, functionName: 'players', args: [gameId, address] },
+    { address: contract.address, abi, functionName: 'getAdjustedBalances', args: [gameId, address] },
+    { address: multicallAddress, abi: MULTICALL3_ABI, functionName: 'getEthBalance', args: [address] },
+    ...prices.tokens.map((token) => ({ address: token.address, abi: ERC20_ABI, functionName: 'balanceOf', args: [address] })),
+  ]);
 
-    // getPlayer returns: [squareIndex, startValueUSDC, penaltyETH, penaltyUSDC, penaltyAERO, penaltyCAKE, alive, eliminationReason]
-    const result = playerData as [number, bigint, bigint, bigint, bigint, bigint, boolean, string];
-    const squareIndex = result[0];
-    const alive = result[6];
-
-    // Get startETH from the players mapping (index 2 in the full struct)
-    const fullPlayerData = await publicClient.readContract({
-      address: CONTRACT_ADDRESS,
-      abi: contractABI,
-      functionName: 'players',
-      args: [gameId, playerAddress],
-    }) as readonly unknown[];
-    const startETH = fullPlayerData[2] as bigint;
-
-    const balance = await publicClient.getBalance({ address: playerAddress });
-    const gainPercent = startETH > 0n
-      ? Number((balance - startETH) * 10000n / startETH) / 100
-      : 0;
+  const { results, rpcCalls } = await multicallInBatches(publicClient, contracts);
 
-    return {
-      wallet: playerAddress,
+  const players: PlayerData[] = [];
+  playerAddresses.forEach((wallet, i) => {
+    const reads = results.slice(i * readsPerPlayer, (i + 1) * readsPerPlayer);
+    const [summaryResult, playerResult, adjustedResult, balanceResult, ...tokenResults] = reads;
+    const failure = [summaryResult, playerResult, adjustedResult, balanceResult].find((r) => r.status === 'failure');
+    if (failure) {
+      console.error('Error fetching player data:', wallet, failure.status === 'failure' ? failure.error : undefined);
+      return;
+    }
+
+    const read = (result: MulticallResult) => (result.status === 'success' ? result.result : undefined);
+    const { squareIndex, alive } = decodePlayerSummary(read(summaryResult), contract.abiVersion);
+    const { startETH, startValueUSDC, penaltyETH } = decodePlayer(read(playerResult), contract.abiVersion);
+    const adjustedBalance = decodeAdjustedBalances(read(adjustedResult), contract.abiVersion).eth;
+    const balance = read(balanceResult) as bigint;
+    // A token whose balanceOf fails is treated as not held rather than dropping the player
+    const tokenBalances = tokenResults.map((result) => (read(result) as bigint | undefined) ?? 0n);
+    const portfolio = valuePortfolio(balance, tokenBalances, prices);
+
+    players.push({
+      wallet,
       squareIndex,
-      rank: 0, // Will be calculated from leaderboard
+      rank: 0, // Filled in by rankPlayers
       isEliminated: !alive,
-      gainPercent: alive ? gainPercent : -100,
+      gainPercent: alive ? gainPercentOf(startETH, balance) : -100,
       balance,
-    };
-  } catch (error) {
-    console.error('Error fetching player data:', error);
-    return null;
-  }
+      penaltyETH,
+      adjustedBalance,
+      adjustedGainPercent: alive ? gainPercentOf(startETH, adjustedBalance) : -100,
+      portfolio,
+      portfolioGainPercent: alive ? portfolioGainPercent(portfolio, { startETH, startValueUSDC }) : -100,
+    });
+  });
+
+  return { players, rpcCalls: rpcCalls + priceCalls };
 }
 
 /**
- * Calculate player rankings based on raw ETH gain % (startETH vs current balance)
+ * Load a round and every player's balances for computeRoundStandings.
+ * Players whose reads fail are left out.
  */
-export async function calculateRankings(
+export async function fetchRoundStandingInputs(
+  contract: ContractDeployment,
   gameId: bigint,
-  playerAddresses: Address[]
-): Promise<Map<Address, number>> {
-  const rankings = new Map<Address, number>();
-  const gainPromises = playerAddresses.map(async (address) => {
-    const player = await publicClient.readContract({
-      address: CONTRACT_ADDRESS,
-      abi: contractABI,
-      functionName: 'getPlayer',
-      args: [gameId, address],
+  roundNumber: bigint
+): Promise<{ round: Round; players: StandingInput[] }> {
+  const publicClient = getPublicClient(contract.chainId);
+  const abi = getContractAbi(contract.abiVersion);
+  const multicallAddress = multicall3Address(publicClient);
+
+  const [roundResult, playersResult] = await publicClient.multicall({
+    contracts: [
+      { address: contract.address, abi, functionName: 'rounds', args: [gameId, roundNumber] },
+      { address: contract.address, abi, functionName: 'getGamePlayers', args: [gameId] },
+    ],
+    allowFailure: false,
+    batchSize: 0,
+  });
+  const round = decodeRound(roundResult, contract.abiVersion);
+  const playerAddresses = playersResult as Address[];
+
+  const contracts: ContractFunctionParameters[] = playerAddresses.flatMap((address) => [
+    { address: contract.address, abi, functionName: 'getPlayer', args: [gameId, address] },
+    { address: contract.address, abi, functionName: 'players', args: [gameId, address] },
+    { address: contract.address, abi, functionName: 'getRoundStartETH', args: [gameId, roundNumber, address] },
+    { address: contract.address, abi, functionName: 'getAdjustedBalances', args: [gameId, address] },
+    { address: multicallAddress, abi: MULTICALL3_ABI, functionName: 'getEthBalance', args: [address] },
+  ]);
+  const { results } = await multicallInBatches(publicClient, contracts);
+
+  const inputs: StandingInput[] = [];
+  playerAddresses.forEach((address, i) => {
+    const reads = results.slice(i * 5, i * 5 + 5);
+    const failure = reads.find((r) => r.status === 'failure');
+    if (failure) {
+      console.error('Error fetching player standing:', address, failure.status === 'failure' ? failure.error : undefined);
+      return;
+    }
+    const [summaryResult, playerResult, roundStartResult, adjustedResult, balanceResult] = reads as { result: unknown }[];
+    const { squareIndex, alive } = decodePlayerSummary(summaryResult.result, contract.abiVersion);
+    inputs.push({
+      address,
+      squareIndex,
+      alive,
+      roundStartETH: roundStartResult.result as bigint,
+      startETH: decodePlayer(playerResult.result, contract.abiVersion).startETH,
+      currentETH: balanceResult.result as bigint,
+      adjustedETH: decodeAdjustedBalances(adjustedResult.result, contract.abiVersion).eth,
     });
-    // getPlayer returns: [squareIndex, startValueUSDC, penaltyETH, penaltyUSDC, penaltyAERO, penaltyCAKE, alive, eliminationReason]
-    const alive = (player as any)[6] as boolean;
-
-    // Get startETH from players mapping (index 2)
-    const fullData = await publicClient.readContract({
-      address: CONTRACT_ADDRESS,
-      abi: contractABI,
-      functionName: 'players',
-      args: [gameId, address],
-    }) as readonly unknown[];
-    const startETH = fullData[2] as bigint;
-
-    const balance = await publicClient.getBalance({ address });
-    const gainPct = startETH > 0n
-      ? Number((balance - startETH) * 10000n / startETH)
-      : 0;
-    return { address, gainPct: alive ? gainPct : -1e9 };
   });
-  const results = await Promise.all(gainPromises);
-  results.sort((a, b) => b.gainPct - a.gainPct);
-  results.forEach((item, index) => rankings.set(item.address, index + 1));
+
+  return { round, players: inputs };
+}
+
+/** A player's gain % under the scoring mode */
+export function scoredGainPercent(player: PlayerData, mode: ScoringMode): number {
+  if (mode === 'portfolio') return player.portfolioGainPercent;
+  return mode === 'adjusted' ? player.adjustedGainPercent : player.gainPercent;
+}
+
+/**
+ * Calculate player rankings based on gain % under the scoring mode: ETH
+ * (less penalties in 'adjusted' mode) or whole-portfolio value. Eliminated
+ * players rank below every alive player.
+ */
+export function calculateRankings(players: PlayerData[], mode: ScoringMode = 'raw'): Map<Address, number> {
+  const rankings = new Map<Address, number>();
+  const sorted = players
+    .map((player) => ({
+      address: player.wallet,
+      gainPct: player.isEliminated ? -1e9 : scoredGainPercent(player, mode),
+    }))
+    .sort((a, b) => b.gainPct - a.gainPct);
+  sorted.forEach((item, index) => rankings.set(item.address, index + 1));
   return rankings;
 }
+
+/** Players with `rank` filled in from calculateRankings */
+export function rankPlayers(players: PlayerData[], mode: ScoringMode = 'raw'): PlayerData[] {
+  const rankings = calculateRankings(players, mode);
+  return players.map((player) => ({ ...player, rank: rankings.get(player.wallet) || 999 }));
+}
@@ -0,0 +1,228 @@
+import { Address, ContractFunctionParameters } from 'viem';
+import { getPublicClient } from './contract';
+import { getContractAbi } from './abis';
+import { ContractDeployment } from './deployments';
+import { decodeGame, Game, serializeGame } from './decoders';
+import { getGameCreators } from './indexer';
+import { GameListFilter, GameListSort, GameRangeFilters, GamesPage, SortOrder } from './gamesApi';
+import { DEFAULT_GRACE_PERIOD, deriveGameStatus, matchesFilter } from './gameStatus';
+
+/** `games` reads per aggregate3 request */
+const MULTICALL_BATCH_SIZE = 200;
+
+/** Ids read per scan step while filling a page */
+const SCAN_CHUNK = 50;
+
+/** Finalized and cancelled games never change again, so they're read once per server (keyed `deployment:gameId`) */
+const settledGames = new Map<string, Game>();
+
+type MulticallResult = { status: 'success'; result: unknown } | { status: 'failure'; error: Error };
+
+/**
+ * Read `games(id)` for every id through Multicall3, serving settled games
+ * from memory. Ids whose read fails are left out.
+ */
+export async function readGames(contract: ContractDeployment, ids: bigint[]): Promise<Map<bigint, Game>> {
+  const abi = getContractAbi(contract.abiVersion);
+  const games = new Map<bigint, Game>();
+  const missing = ids.filter((id) => {
+    const cached = settledGames.get(`${contract.id}:${id}`);
+    if (cached) games.set(id, cached);
+    return !cached;
+  });
+
+  for (let i = 0; i < missing.length; i += MULTICALL_BATCH_SIZE) {
+    const batchIds = missing.slice(i, i + MULTICALL_BATCH_SIZE);
+    const contracts: ContractFunctionParameters[] = batchIds.map((id) => ({
+      address: contract.address,
+      abi,
+      functionName: 'games',
+      args: [id],
+    }));
+    const results = await getPublicClient(contract.chainId).multicall({ contracts, allowFailure: true, batchSize: 0 }) as MulticallResult[];
+
+    results.forEach((result, index) => {
+      const id = batchIds[index];
+      if (result.status !== 'success') {
+        console.error(`Error fetching game #${id}:`, result.error);
+        return;
+      }
+      const game = decodeGame(result.result, contract.abiVersion);
+      games.set(id, game);
+      if (game.finalized || game.cancelled) settledGames.set(`${contract.id}:${id}`, game);
+    });
+  }
+
+  return games;
+}
+
+const gracePeriods = new Map<string, Promise<number>>();
+
+/** Contract GRACE_PERIOD, read once per deployment per server */
+export function readGracePeriod(contract: ContractDeployment): Promise<number> {
+  let gracePeriod = gracePeriods.get(contract.id);
+  if (!gracePeriod) {
+    gracePeriod = (getPublicClient(contract.chainId).readContract({
+      address: contract.address,
+      abi: getContractAbi(contract.abiVersion),
+      functionName: 'GRACE_PERIOD',
+    }) as Promise<bigint>)
+      .then(Number)
+      .catch((error) => {
+        console.error('Error reading GRACE_PERIOD:', error);
+        gracePeriods.delete(contract.id);
+        return DEFAULT_GRACE_PERIOD;
+      });
+    gracePeriods.set(contract.id, gracePeriod);
+  }
+  return gracePeriod;
+}
+
+export interface ListGamesOptions extends GameRangeFilters {
+  contract: ContractDeployment;
+  status: GameListFilter;
+  /** Last game id of the previous page for `newest`/`oldest`, otherwise an offset */
+  cursor: bigint | null;
+  limit: number;
+  sort: GameListSort;
+  order: SortOrder;
+  creator?: Address;
+  /** A game id or a creator address prefix, see GAME_SEARCH_PATTERN */
+  search?: string;
+}
+
+/** Ids to consider, ascending: every game, or only those matching `creator` / `search` */
+async function candidateIds(contract: ContractDeployment, creator?: Address, search?: string): Promise<bigint[]> {
+  const creatorPrefix = search?.startsWith('0x') ? search.toLowerCase() : null;
+  if (creator || creatorPrefix) {
+    const creators = await getGameCreators(contract);
+    return [...creators]
+      .filter(([, address]) => !creator || address.toLowerCase() === creator.toLowerCase())
+      .filter(([, address]) => !creatorPrefix || address.toLowerCase().startsWith(creatorPrefix))
+      .map(([id]) => id)
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  const currentGameId = await getPublicClient(contract.chainId).readContract({
+    address: contract.address,
+    abi: getContractAbi(contract.abiVersion),
+    functionName: 'currentGameId',
+  }) as bigint;
+  if (search) {
+    const id = BigInt(search);
+    return id >= 1n && id <= currentGameId ? [id] : [];
+  }
+  return Array.from({ length: Number(currentGameId) }, (_, i) => BigInt(i + 1));
+}
+
+function withinRanges(game: Game, ranges: GameRangeFilters): boolean {
+  const duration = Number(game.roundDuration);
+  return (ranges.minEntryFee === undefined || game.entryFee >= ranges.minEntryFee)
+    && (ranges.maxEntryFee === undefined || game.entryFee <= ranges.maxEntryFee)
+    && (ranges.minRoundDuration === undefined || duration >= ranges.minRoundDuration)
+    && (ranges.maxRoundDuration === undefined || duration <= ranges.maxRoundDuration);
+}
+
+/** Value a game is ranked by under each value sort */
+const SORT_KEYS: Record<Exclude<GameListSort, 'newest' | 'oldest'>, (game: Game) => bigint | number> = {
+  'entry-fee': (game) => game.entryFee,
+  'prize-pool': (game) => game.prizePool,
+  players: (game) => game.playerCount,
+  fill: (game) => Number(game.playerCount) / Math.max(Number(game.minPlayers), 1),
+  // Registration closes first; once started, the start time is the reference point
+  deadline: (game) => (game.startTime > 0n ? game.startTime : game.registrationDeadline),
+};
+
+function compareKeys(a: bigint | number, b: bigint | number): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+type RankedGame = { id: bigint; game: Game };
+
+/** How long a value sort's ranking serves the pages after the first */
+const RANKING_TTL_MS = 30_000;
+
+/** Value-sorted matches per query, so paging through them doesn't re-read every game */
+const rankings = new Map<string, { ranked: Promise<RankedGame[]>; rankedAt: number }>();
+
+function rankingKey(query: Omit<ListGamesOptions, 'cursor' | 'limit'>): string {
+  const { contract, status, sort, order, creator, search, minEntryFee, maxEntryFee, minRoundDuration, maxRoundDuration } = query;
+  return [contract.id, status, sort, order, creator?.toLowerCase(), search, minEntryFee, maxEntryFee, minRoundDuration, maxRoundDuration]
+    .map((part) => part ?? '')
+    .join(':');
+}
+
+/**
+ * A value sort's ranking for one query. The first page always re-ranks, and
+ * the lobby re-reads from the first page on contract events; later pages
+ * reuse that ranking for RANKING_TTL_MS.
+ */
+function rankedGames(key: string, refresh: boolean, rank: () => Promise<RankedGame[]>): Promise<RankedGame[]> {
+  const now = Date.now();
+  const cached = rankings.get(key);
+  if (!refresh && cached && now - cached.rankedAt < RANKING_TTL_MS) return cached.ranked;
+
+  for (const [staleKey, stale] of rankings) {
+    if (now - stale.rankedAt >= RANKING_TTL_MS) rankings.delete(staleKey);
+  }
+  const entry = { ranked: rank(), rankedAt: now };
+  rankings.set(key, entry);
+  // Don't keep a failed ranking around for the whole TTL
+  entry.ranked.catch(() => {
+    if (rankings.get(key) === entry) rankings.delete(key);
+  });
+  return entry.ranked;
+}
+
+/**
+ * One page of games matching the filters. `newest`/`oldest` page in id order
+ * with the last id as cursor, so games created between requests don't shift
+ * pages. Value sorts read every candidate, rank them (ties newest first) and
+ * page by offset through the ranking, which later pages share (see rankedGames).
+ */
+export async function listGames({ cursor, limit, ...query }: ListGamesOptions): Promise<GamesPage> {
+  const { contract, status, sort, order, creator, search, ...ranges } = query;
+  const now = Math.floor(Date.now() / 1000);
+  const context = { now, gracePeriod: await readGracePeriod(contract) };
+  const matches = (games: Map<bigint, Game>, chunk: bigint[]) => chunk.flatMap((id) => {
+    const game = games.get(id);
+    return game && matchesFilter(deriveGameStatus(game, context), status) && withinRanges(game, ranges)
+      ? [{ id, game }]
+      : [];
+  });
+
+  if (sort !== 'newest' && sort !== 'oldest') {
+    const key = SORT_KEYS[sort];
+    const direction = order === 'asc' ? 1 : -1;
+    const offset = Number(cursor ?? 0n);
+    const ranked = await rankedGames(rankingKey(query), offset === 0, async () => {
+      const ids = await candidateIds(contract, creator, search);
+      return matches(await readGames(contract, ids), ids)
+        .sort((a, b) => direction * compareKeys(key(a.game), key(b.game)) || compareKeys(b.id, a.id));
+    });
+    const page = ranked.slice(offset, offset + limit);
+    return {
+      games: page.map(({ game }) => serializeGame(game)),
+      nextCursor: offset + limit < ranked.length ? String(offset + limit) : null,
+    };
+  }
+
+  let ids = await candidateIds(contract, creator, search);
+  if (sort === 'newest') ids.reverse();
+  if (cursor !== null) {
+    ids = ids.filter((id) => (sort === 'newest' ? id < cursor : id > cursor));
+  }
+
+  // Read one extra match so we know whether another page exists
+  const found: { id: bigint; game: Game }[] = [];
+  for (let i = 0; i < ids.length && found.length <= limit; i += SCAN_CHUNK) {
+    const chunk = ids.slice(i, i + SCAN_CHUNK);
+    found.push(...matches(await readGames(contract, chunk), chunk));
+  }
+
+  const page = found.slice(0, limit);
+  return {
+    games: page.map(({ game }) => serializeGame(game)),
+    nextCursor: found.length > limit ? page[page.length - 1].id.toString() : null,
+  };
+}
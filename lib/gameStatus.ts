@@ -0,0 +1,102 @@
+import { Game, Round } from './decoders';
+import { GameListFilter } from './gamesApi';
+
+/**
+ * Every state a game can be in. Derived from `games()` (and the current
+ * `rounds()` entry once live) so the lobby, game page and action buttons
+ * all agree.
+ */
+export type GameStatus =
+  /** Taking registrations until the deadline */
+  | 'REGISTRATION_OPEN'
+  /** Deadline passed with enough players; anyone can start it */
+  | 'READY_TO_START'
+  /** Deadline passed without enough players; cancellable once the grace period ends */
+  | 'UNDERFILLED'
+  /** Underfilled and past the grace period; anyone can cancel it for a reward */
+  | 'CANCELLABLE'
+  /** A round is running */
+  | 'LIVE'
+  /** The current round's time is up but nobody has finalized it yet */
+  | 'AWAITING_FINALIZATION'
+  | 'FINALIZED'
+  | 'CANCELLED';
+
+export type GameAction = 'register' | 'start' | 'cancel' | 'finalizeRound';
+
+/** Fallback when the contract's GRACE_PERIOD hasn't been read yet (1 hour) */
+export const DEFAULT_GRACE_PERIOD = 3600;
+
+export interface StatusContext {
+  /** Unix seconds */
+  now: number;
+  /** Contract GRACE_PERIOD in seconds */
+  gracePeriod?: number;
+  /** `rounds(gameId, currentRound)`; without it a live game is never AWAITING_FINALIZATION */
+  round?: Round;
+}
+
+export function deriveGameStatus(game: Game, { now, gracePeriod = DEFAULT_GRACE_PERIOD, round }: StatusContext): GameStatus {
+  if (game.cancelled) return 'CANCELLED';
+  if (game.finalized) return 'FINALIZED';
+
+  if (game.startTime > 0n) {
+    const roundOver = round !== undefined
+      && round.roundNumber === game.currentRound
+      && !round.finalized
+      && round.endTime > 0n
+      && Number(round.endTime) <= now;
+    return roundOver ? 'AWAITING_FINALIZATION' : 'LIVE';
+  }
+
+  const deadline = Number(game.registrationDeadline);
+  if (deadline === 0 || now <= deadline) return 'REGISTRATION_OPEN';
+  if (game.playerCount >= game.minPlayers) return 'READY_TO_START';
+  return now >= deadline + gracePeriod ? 'CANCELLABLE' : 'UNDERFILLED';
+}
+
+/** What the UI may offer in each state; the contract still has the final word */
+export const GAME_STATUS_ACTIONS: Record<GameStatus, readonly GameAction[]> = {
+  REGISTRATION_OPEN: ['register'],
+  READY_TO_START: ['start'],
+  UNDERFILLED: [],
+  CANCELLABLE: ['cancel'],
+  LIVE: [],
+  AWAITING_FINALIZATION: ['finalizeRound'],
+  FINALIZED: [],
+  CANCELLED: [],
+};
+
+export function canPerform(status: GameStatus, action: GameAction): boolean {
+  return GAME_STATUS_ACTIONS[status].includes(action);
+}
+
+export const GAME_STATUS_LABELS: Record<GameStatus, string> = {
+  REGISTRATION_OPEN: 'Registration Open',
+  READY_TO_START: 'Ready to Start',
+  UNDERFILLED: 'Underfilled',
+  CANCELLABLE: 'Cancellable',
+  LIVE: 'Live',
+  AWAITING_FINALIZATION: 'Awaiting Finalization',
+  FINALIZED: 'Finished',
+  CANCELLED: 'Cancelled',
+};
+
+/**
+ * Lobby tab each status appears under (besides "all"). Underfilled games
+ * only show under "all" until someone cancels them.
+ */
+const STATUS_FILTER: Record<GameStatus, GameListFilter | null> = {
+  REGISTRATION_OPEN: 'open',
+  READY_TO_START: 'starting',
+  UNDERFILLED: null,
+  CANCELLABLE: null,
+  LIVE: 'live',
+  AWAITING_FINALIZATION: 'live',
+  FINALIZED: 'finished',
+  CANCELLED: 'finished',
+};
+
+export function matchesFilter(status: GameStatus, filter: GameListFilter): boolean {
+  return filter === 'all' || STATUS_FILTER[status] === filter;
+}
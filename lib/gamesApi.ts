@@ -0,0 +1,110 @@
+import { Address } from 'viem';
+import { SerializedGame } from './decoders';
+
+/** Lobby tabs; also the `status` param of /api/games */
+export const GAME_LIST_FILTERS = ['open', 'starting', 'live', 'finished', 'all'] as const;
+export type GameListFilter = typeof GAME_LIST_FILTERS[number];
+
+/** `newest`/`oldest` page by id; the rest rank every matching game by value */
+export const GAME_LIST_SORTS = ['newest', 'oldest', 'entry-fee', 'prize-pool', 'players', 'fill', 'deadline'] as const;
+export type GameListSort = typeof GAME_LIST_SORTS[number];
+
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+export type SortOrder = typeof SORT_ORDERS[number];
+
+export const GAME_LIST_SORT_LABELS: Record<GameListSort, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  'entry-fee': 'Entry fee',
+  'prize-pool': 'Prize pool',
+  players: 'Players',
+  fill: 'Fill vs. minimum',
+  deadline: 'Deadline / start',
+};
+
+/** Direction each value sort uses when `order` is omitted */
+export const DEFAULT_SORT_ORDER: Record<GameListSort, SortOrder> = {
+  newest: 'desc',
+  oldest: 'asc',
+  'entry-fee': 'desc',
+  'prize-pool': 'desc',
+  players: 'desc',
+  fill: 'desc',
+  deadline: 'asc',
+};
+
+/** Inclusive bounds on a game's settings; omitted bounds are open */
+export interface GameRangeFilters {
+  /** Wei */
+  minEntryFee?: bigint;
+  maxEntryFee?: bigint;
+  /** Seconds */
+  minRoundDuration?: number;
+  maxRoundDuration?: number;
+}
+
+/** A game id (`42`) or a creator address or address prefix (`0xab12`) */
+export const GAME_SEARCH_PATTERN = /^(\d+|0x[0-9a-fA-F]{1,40})$/;
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+export interface GamesQuery extends GameRangeFilters {
+  /** Contract id from lib/deployments.ts; the default chain's current contract when omitted */
+  deployment?: string;
+  status?: GameListFilter;
+  /** `nextCursor` from the previous page */
+  cursor?: string | null;
+  limit?: number;
+  sort?: GameListSort;
+  /** Ignored by `newest` and `oldest` */
+  order?: SortOrder;
+  creator?: Address;
+  /** Matches GAME_SEARCH_PATTERN */
+  search?: string;
+}
+
+export interface GamesPage {
+  games: SerializedGame[];
+  /**
+   * Pass back as `cursor` for the next page; null when there are no more
+   * games. A game id for `newest`/`oldest`, an offset for value sorts.
+   */
+  nextCursor: string | null;
+}
+
+/**
+ * Fetch one page of games from /api/games (client side)
+ */
+export async function fetchGamesPage(query: GamesQuery = {}): Promise<GamesPage> {
+  const params = new URLSearchParams();
+  if (query.deployment) params.set('deployment', query.deployment);
+  if (query.status) params.set('status', query.status);
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.limit) params.set('limit', String(query.limit));
+  if (query.sort) params.set('sort', query.sort);
+  if (query.order) params.set('order', query.order);
+  if (query.creator) params.set('creator', query.creator);
+  if (query.search) params.set('search', query.search);
+  if (query.minEntryFee !== undefined) params.set('minEntryFee', query.minEntryFee.toString());
+  if (query.maxEntryFee !== undefined) params.set('maxEntryFee', query.maxEntryFee.toString());
+  if (query.minRoundDuration !== undefined) params.set('minRoundDuration', String(query.minRoundDuration));
+  if (query.maxRoundDuration !== undefined) params.set('maxRoundDuration', String(query.maxRoundDuration));
+
+  const response = await fetch(`/api/games?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch games: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetch a single game from /api/game/:gameId (client side)
+ */
+export async function fetchGame(deploymentId: string, gameId: bigint | number | string): Promise<SerializedGame> {
+  const response = await fetch(`/api/game/${gameId}?${new URLSearchParams({ deployment: deploymentId })}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch game #${gameId}: ${response.status}`);
+  }
+  return response.json();
+}
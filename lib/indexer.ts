@@ -0,0 +1,259 @@
+import { Address, Hash } from 'viem';
+import { getPublicClient } from './contract';
+import { getContractAbi } from './abis';
+import { ContractDeployment } from './deployments';
+import { appendToEventStore, loadEventStore, saveEventStore, EventStoreState } from './eventStore';
+import { IndexedEvent } from './events';
+
+// ============ Config ============
+
+/** Blocks behind head before an event is considered final */
+const CONFIRMATIONS = BigInt(process.env.INDEXER_CONFIRMATIONS || '12');
+
+/** Largest getLogs range per request; halved automatically when the RPC refuses */
+const MAX_BLOCK_RANGE = BigInt(process.env.INDEXER_BLOCK_RANGE || '10000');
+const MIN_BLOCK_RANGE = 100n;
+
+/** Time a single sync may spend backfilling before handing back partial results */
+const SYNC_BUDGET_MS = parseInt(process.env.INDEXER_SYNC_BUDGET_MS || '8000');
+
+/** Requests within this window reuse the last sync instead of polling the chain again */
+const MIN_SYNC_INTERVAL_MS = 5000;
+
+/** Args that name a participant, used to match events to a player */
+const PLAYER_ARGS = ['player', 'winner', 'finalizer', 'canceler', 'starter'];
+
+// ============ Sync ============
+
+export interface IndexerStatus {
+  indexedThrough: bigint | null;
+  caughtUp: boolean;
+}
+
+/** Sync state for one contract */
+interface ContractIndexer {
+  contract: ContractDeployment;
+  state: EventStoreState | null;
+  syncing: Promise<IndexerStatus> | null;
+  lastSyncAt: number;
+  lastStatus: IndexerStatus;
+}
+
+const indexers = new Map<string, ContractIndexer>();
+
+function indexerFor(contract: ContractDeployment): ContractIndexer {
+  let indexer = indexers.get(contract.id);
+  if (!indexer) {
+    indexer = {
+      contract,
+      state: null,
+      syncing: null,
+      lastSyncAt: 0,
+      lastStatus: { indexedThrough: null, caughtUp: false },
+    };
+    indexers.set(contract.id, indexer);
+  }
+  return indexer;
+}
+
+async function blockHash(chainId: number, blockNumber: bigint): Promise<Hash> {
+  const block = await getPublicClient(chainId).getBlock({ blockNumber });
+  return block.hash;
+}
+
+/**
+ * First block where the contract has code, by bisecting getCode over the
+ * chain. Null when the RPC can't serve historical state (or there's no code
+ * at all), in which case indexing starts from genesis.
+ */
+async function findDeploymentBlock(contract: ContractDeployment, head: bigint): Promise<bigint | null> {
+  const publicClient = getPublicClient(contract.chainId);
+  const hasCode = async (blockNumber: bigint) => !!(await publicClient.getCode({ address: contract.address, blockNumber }));
+  try {
+    if (!(await hasCode(head))) return null;
+    let low = 0n;
+    let high = head;
+    while (low < high) {
+      const mid = (low + high) / 2n;
+      if (await hasCode(mid)) high = mid;
+      else low = mid + 1n;
+    }
+    return low;
+  } catch (error) {
+    console.warn(`Couldn't find the deployment block of ${contract.id}, indexing from genesis:`, error);
+    return null;
+  }
+}
+
+/** The configured start block, else the deployment block found once and kept in the store */
+async function startBlockOf(contract: ContractDeployment, store: EventStoreState, head: bigint): Promise<bigint> {
+  if (contract.startBlock !== null) return contract.startBlock;
+  if (store.startBlock === null) {
+    store.startBlock = await findDeploymentBlock(contract, head);
+    if (store.startBlock !== null) await appendToEventStore(store, []);
+  }
+  return store.startBlock ?? 0n;
+}
+
+/**
+ * Drop everything newer than the confirmation window when the checkpoint
+ * block no longer matches the chain (a reorg deeper than CONFIRMATIONS).
+ * Returns whether anything was dropped.
+ */
+async function rewindIfReorged(contract: ContractDeployment, store: EventStoreState): Promise<boolean> {
+  const { chainId } = contract;
+  const { checkpoint } = store;
+  if (!checkpoint) return false;
+  if ((await blockHash(chainId, checkpoint.blockNumber)) === checkpoint.blockHash) return false;
+
+  const rewindTo = checkpoint.blockNumber - CONFIRMATIONS;
+  console.warn(`Indexer checkpoint ${checkpoint.blockNumber} was reorged out, rewinding to ${rewindTo}`);
+  if (rewindTo < (contract.startBlock ?? store.startBlock ?? 0n)) {
+    store.checkpoint = null;
+    store.events = [];
+    return true;
+  }
+  store.events = store.events.filter((event) => event.blockNumber <= rewindTo);
+  store.checkpoint = { blockNumber: rewindTo, blockHash: await blockHash(chainId, rewindTo) };
+  return true;
+}
+
+async function fetchRange(contract: ContractDeployment, fromBlock: bigint, toBlock: bigint): Promise<IndexedEvent[]> {
+  const publicClient = getPublicClient(contract.chainId);
+  const logs = await publicClient.getContractEvents({
+    address: contract.address,
+    abi: getContractAbi(contract.abiVersion),
+    fromBlock,
+    toBlock,
+  });
+  const events = logs.map((log) => {
+    const { eventName, args, blockNumber, blockHash, logIndex, transactionHash } = log as unknown as IndexedEvent;
+    return { eventName, args, blockNumber, blockHash, logIndex, transactionHash } as IndexedEvent;
+  });
+
+  // The contract doesn't record who created a game, so keep the tx sender
+  for (const event of events) {
+    if (event.eventName !== 'GameCreated') continue;
+    const tx = await publicClient.getTransaction({ hash: event.transactionHash });
+    event.from = tx.from;
+  }
+  return events;
+}
+
+async function runSync(indexer: ContractIndexer): Promise<IndexerStatus> {
+  const { contract } = indexer;
+  const { chainId } = contract;
+  if (!indexer.state) {
+    indexer.state = await loadEventStore(chainId, contract.address);
+  }
+  const store = indexer.state;
+  const startedAt = Date.now();
+
+  // The log is only appended to, so dropping events means rewriting it
+  if (await rewindIfReorged(contract, store)) await saveEventStore(store);
+
+  const head = await getPublicClient(chainId).getBlockNumber();
+  const confirmedHead = head - CONFIRMATIONS;
+  let from = store.checkpoint ? store.checkpoint.blockNumber + 1n : await startBlockOf(contract, store, head);
+  let range = MAX_BLOCK_RANGE;
+
+  while (from <= confirmedHead && Date.now() - startedAt < SYNC_BUDGET_MS) {
+    const to = from + range - 1n < confirmedHead ? from + range - 1n : confirmedHead;
+    let events: IndexedEvent[];
+    try {
+      events = await fetchRange(contract, from, to);
+    } catch (error) {
+      if (range <= MIN_BLOCK_RANGE) throw error;
+      range /= 2n;
+      continue;
+    }
+
+    store.events.push(...events);
+    store.checkpoint = { blockNumber: to, blockHash: await blockHash(chainId, to) };
+    await appendToEventStore(store, events);
+    from = to + 1n;
+  }
+
+  return {
+    indexedThrough: store.checkpoint?.blockNumber ?? null,
+    caughtUp: from > confirmedHead,
+  };
+}
+
+/**
+ * Bring a contract's store up to the confirmed head (within SYNC_BUDGET_MS).
+ * Concurrent callers share one sync; failures keep serving the last
+ * indexed state rather than failing the request.
+ */
+export async function syncEvents(contract: ContractDeployment): Promise<IndexerStatus> {
+  const indexer = indexerFor(contract);
+  if (indexer.syncing) return indexer.syncing;
+  if (Date.now() - indexer.lastSyncAt < MIN_SYNC_INTERVAL_MS) return indexer.lastStatus;
+
+  indexer.syncing = runSync(indexer)
+    .then((status) => {
+      indexer.lastStatus = status;
+      return status;
+    })
+    .catch((error) => {
+      console.error(`Event indexer sync failed for ${indexer.contract.id}:`, error);
+      return { ...indexer.lastStatus, caughtUp: false };
+    })
+    .finally(() => {
+      indexer.lastSyncAt = Date.now();
+      indexer.syncing = null;
+    });
+  return indexer.syncing;
+}
+
+// ============ Queries ============
+
+export interface EventFilter {
+  gameId?: bigint;
+  /** Matches events where the address is the player, winner, finalizer, canceler or starter */
+  player?: Address;
+  eventNames?: string[];
+}
+
+/** Indexed events matching the filter, in chain order. Call `syncEvents` first for fresh data. */
+export function queryEvents(contract: ContractDeployment, filter: EventFilter = {}): IndexedEvent[] {
+  const { state } = indexerFor(contract);
+  if (!state) return [];
+  const player = filter.player?.toLowerCase();
+  return state.events.filter((event) => {
+    if (filter.eventNames?.length && !filter.eventNames.includes(event.eventName)) return false;
+    if (filter.gameId !== undefined && event.args.gameId !== filter.gameId) return false;
+    if (player && !PLAYER_ARGS.some((key) => String(event.args[key] ?? '').toLowerCase() === player)) return false;
+    return true;
+  });
+}
+
+/** Sync, then return the game's events (optionally narrowed to some event names) */
+export async function getGameEvents(
+  contract: ContractDeployment,
+  gameId: bigint,
+  eventNames?: string[]
+): Promise<IndexerStatus & { events: IndexedEvent[] }> {
+  const status = await syncEvents(contract);
+  return { ...status, events: queryEvents(contract, { gameId, eventNames }) };
+}
+
+/** Sync, then return every event a player took part in, across games */
+export async function getPlayerEvents(
+  contract: ContractDeployment,
+  player: Address,
+  eventNames?: string[]
+): Promise<IndexerStatus & { events: IndexedEvent[] }> {
+  const status = await syncEvents(contract);
+  return { ...status, events: queryEvents(contract, { player, eventNames }) };
+}
+
+/** Sync, then map each game id to the address that created it */
+export async function getGameCreators(contract: ContractDeployment): Promise<Map<bigint, Address>> {
+  await syncEvents(contract);
+  const creators = new Map<bigint, Address>();
+  for (const event of queryEvents(contract, { eventNames: ['GameCreated'] })) {
+    if (event.from) creators.set(event.args.gameId as bigint, event.from);
+  }
+  return creators;
+}
@@ -0,0 +1,191 @@
+import { Address } from 'viem';
+import { ContractDeployment } from './deployments';
+import { Game } from './decoders';
+import { IndexedEvent } from './events';
+import { queryEvents, syncEvents } from './indexer';
+import { readGames } from './gameList';
+import { gainPercentOf } from './scoring';
+import { netEarnings, rewardOf } from './earnings';
+import { LeaderboardEntry, LeaderboardResponse, LeaderboardWindow } from './leaderboardApi';
+
+/** Event history the leaderboard is built from */
+const LEADERBOARD_EVENTS = [
+  'PlayerRegistered',
+  'PlayerEliminated',
+  'PrizePaid',
+  'GameCancelled',
+  'RoundStarted',
+  'FinalizationRewardPaid',
+  'RoundSnapshotTaken',
+  'RoundEndSnapshotTaken',
+];
+
+const THIRTY_DAYS = 30 * 24 * 60 * 60;
+
+interface WalletTotals {
+  address: Address;
+  games: number;
+  finished: number;
+  places: [number, number, number];
+  prize: bigint;
+  entryFees: bigint;
+  refunds: bigint;
+  rewards: bigint;
+  percentiles: number[];
+  roundGains: number[];
+}
+
+// ============ Aggregation ============
+
+/**
+ * Finishing position of every registrant of a finalized game: prize places
+ * from PrizePaid, then everyone else by elimination, latest first.
+ */
+function finishingPositions(registrants: string[], events: IndexedEvent[]): Map<string, number> {
+  const positions = new Map<string, number>();
+  for (const event of events) {
+    if (event.eventName === 'PrizePaid') positions.set(String(event.args.winner).toLowerCase(), Number(event.args.place));
+  }
+  let next = positions.size + 1;
+
+  const eliminated = events
+    .filter((event) => event.eventName === 'PlayerEliminated')
+    .map((event) => String(event.args.player).toLowerCase())
+    .reverse();
+  // Anyone unplaced who was never eliminated outlasted everyone who was
+  for (const player of registrants) {
+    if (!positions.has(player) && !eliminated.includes(player)) positions.set(player, next++);
+  }
+  for (const player of eliminated) {
+    if (!positions.has(player)) positions.set(player, next++);
+  }
+  return positions;
+}
+
+/** Per-wallet totals over the given games' events (chain order) */
+export function aggregateLeaderboard(events: IndexedEvent[], games: Map<bigint, Game>): LeaderboardEntry[] {
+  const wallets = new Map<string, WalletTotals>();
+  const byGame = new Map<bigint, IndexedEvent[]>();
+  for (const event of events) {
+    const gameId = event.args.gameId as bigint;
+    if (!games.has(gameId)) continue;
+    const gameEvents = byGame.get(gameId);
+    if (gameEvents) gameEvents.push(event);
+    else byGame.set(gameId, [event]);
+  }
+
+  const walletFor = (address: string) => {
+    const key = address.toLowerCase();
+    let totals = wallets.get(key);
+    if (!totals) {
+      totals = { address: address as Address, games: 0, finished: 0, places: [0, 0, 0], prize: 0n, entryFees: 0n, refunds: 0n, rewards: 0n, percentiles: [], roundGains: [] };
+      wallets.set(key, totals);
+    }
+    return totals;
+  };
+
+  for (const [gameId, gameEvents] of byGame) {
+    const game = games.get(gameId)!;
+    const registrants = gameEvents
+      .filter((event) => event.eventName === 'PlayerRegistered')
+      .map((event) => String(event.args.player));
+    const refund = gameEvents.find((event) => event.eventName === 'GameCancelled')?.args.refundAmount as bigint | undefined;
+
+    for (const player of registrants) {
+      const totals = walletFor(player);
+      totals.games++;
+      totals.entryFees += game.entryFee;
+      if (game.cancelled) totals.refunds += refund ?? 0n;
+    }
+
+    if (game.finalized) {
+      const positions = finishingPositions(registrants.map((player) => player.toLowerCase()), gameEvents);
+      const field = registrants.length;
+      for (const player of registrants) {
+        const totals = walletFor(player);
+        const position = positions.get(player.toLowerCase())!;
+        totals.finished++;
+        totals.percentiles.push(field > 1 ? ((field - position) / (field - 1)) * 100 : 100);
+      }
+    }
+
+    const registered = new Set(registrants.map((player) => player.toLowerCase()));
+    const roundStarts = new Map<string, bigint>();
+    for (const event of gameEvents) {
+      const key = `${event.args.roundNumber}:${String(event.args.player).toLowerCase()}`;
+      const reward = rewardOf(event);
+      // Keeper rewards count toward a wallet's net only in games it played, as on its profile
+      if (reward && registered.has(reward.recipient.toLowerCase())) {
+        walletFor(reward.recipient).rewards += reward.amount;
+      }
+      if (event.eventName === 'PrizePaid') {
+        const totals = walletFor(String(event.args.winner));
+        const place = Number(event.args.place);
+        totals.prize += event.args.amount as bigint;
+        if (place >= 1 && place <= 3) totals.places[place - 1]++;
+      } else if (event.eventName === 'RoundSnapshotTaken') {
+        roundStarts.set(key, event.args.ethBalance as bigint);
+      } else if (event.eventName === 'RoundEndSnapshotTaken') {
+        const start = roundStarts.get(key);
+        if (start) walletFor(String(event.args.player)).roundGains.push(gainPercentOf(start, event.args.ethBalance as bigint));
+      }
+    }
+  }
+
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+  return Array.from(wallets.values()).map((totals) => ({
+    address: totals.address,
+    games: totals.games,
+    finished: totals.finished,
+    first: totals.places[0],
+    second: totals.places[1],
+    third: totals.places[2],
+    prize: totals.prize.toString(),
+    entryFees: totals.entryFees.toString(),
+    refunds: totals.refunds.toString(),
+    rewards: totals.rewards.toString(),
+    net: netEarnings({ ...totals, prizes: totals.prize }).toString(),
+    avgPercentile: mean(totals.percentiles),
+    avgRoundGain: mean(totals.roundGains),
+    rounds: totals.roundGains.length,
+  }));
+}
+
+// ============ Leaderboard ============
+
+/**
+ * Leaderboard for one deployment over a window of games. Games come from
+ * the indexed PlayerRegistered history; the 30-day window keeps games that
+ * started within the last 30 days.
+ */
+export async function buildLeaderboard(
+  contract: ContractDeployment,
+  window: LeaderboardWindow,
+  gameIds: bigint[] = []
+): Promise<LeaderboardResponse> {
+  const { indexedThrough, caughtUp } = await syncEvents(contract);
+  const events = queryEvents(contract, { eventNames: LEADERBOARD_EVENTS });
+
+  let ids = [...new Set(
+    events.filter((event) => event.eventName === 'PlayerRegistered').map((event) => event.args.gameId as bigint)
+  )];
+  if (window === 'games') {
+    const chosen = new Set(gameIds);
+    ids = ids.filter((id) => chosen.has(id));
+  }
+
+  const games = await readGames(contract, ids);
+  if (window === '30d') {
+    const since = BigInt(Math.floor(Date.now() / 1000) - THIRTY_DAYS);
+    for (const [id, game] of games) {
+      if (game.startTime === 0n || game.startTime < since) games.delete(id);
+    }
+  }
+
+  return {
+    entries: aggregateLeaderboard(events, games),
+    gameIds: [...games.keys()].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)).map(String),
+    indexedThrough: indexedThrough?.toString() ?? null,
+    caughtUp,
+  };
+}
@@ -0,0 +1,97 @@
+import { Address } from 'viem';
+import { EventsResponse } from './events';
+
+/** `window` param of /api/leaderboard: every game, games started in the last 30 days, or the ids in `games` */
+export const LEADERBOARD_WINDOWS = ['all', '30d', 'games'] as const;
+export type LeaderboardWindow = typeof LEADERBOARD_WINDOWS[number];
+
+export const LEADERBOARD_WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  all: 'All time',
+  '30d': 'Last 30 days',
+  games: 'Selected games',
+};
+
+/** Columns the leaderboard can be ranked by */
+export const LEADERBOARD_SORTS = ['prize', 'wins', 'percentile', 'roundGain', 'net'] as const;
+export type LeaderboardSort = typeof LEADERBOARD_SORTS[number];
+
+export const LEADERBOARD_SORT_LABELS: Record<LeaderboardSort, string> = {
+  prize: 'Prize ETH',
+  wins: 'Places',
+  percentile: 'Avg finish',
+  roundGain: 'Avg round gain',
+  net: 'Net profit',
+};
+
+export interface LeaderboardEntry {
+  address: Address;
+  /** Games registered in within the window */
+  games: number;
+  /** Finalized games, the ones placements and percentiles come from */
+  finished: number;
+  first: number;
+  second: number;
+  third: number;
+  /** Wei, from PrizePaid */
+  prize: string;
+  /** Wei */
+  entryFees: string;
+  /** Wei refunded from cancelled games */
+  refunds: string;
+  /** Keeper rewards (start, finalization, cancel) earned in these games, in wei */
+  rewards: string;
+  /** Prizes plus refunds plus rewards minus entry fees, in wei */
+  net: string;
+  /** Mean share of the field finished ahead of (100 = won), null without a finished game */
+  avgPercentile: number | null;
+  /** Mean gain % over every round with both snapshots, null without one */
+  avgRoundGain: number | null;
+  rounds: number;
+}
+
+export interface LeaderboardResponse extends Pick<EventsResponse, 'indexedThrough' | 'caughtUp'> {
+  entries: LeaderboardEntry[];
+  /** Game ids the window covered */
+  gameIds: string[];
+}
+
+export interface LeaderboardQuery {
+  /** Contract id from lib/deployments.ts; the default chain's current contract when omitted */
+  deployment?: string;
+  window?: LeaderboardWindow;
+  /** For window `games` */
+  gameIds?: number[];
+}
+
+/** Value an entry is ranked by under each sort; higher ranks first */
+export function leaderboardScore(entry: LeaderboardEntry, sort: LeaderboardSort): number {
+  switch (sort) {
+    case 'prize':
+      return Number(BigInt(entry.prize));
+    case 'wins':
+      // 1st places first, then 2nd, then 3rd
+      return entry.first * 1_000_000 + entry.second * 1_000 + entry.third;
+    case 'percentile':
+      return entry.avgPercentile ?? -Infinity;
+    case 'roundGain':
+      return entry.avgRoundGain ?? -Infinity;
+    case 'net':
+      return Number(BigInt(entry.net));
+  }
+}
+
+/**
+ * Fetch the leaderboard from /api/leaderboard (client side)
+ */
+export async function fetchLeaderboard(query: LeaderboardQuery = {}): Promise<LeaderboardResponse> {
+  const params = new URLSearchParams();
+  if (query.deployment) params.set('deployment', query.deployment);
+  if (query.window) params.set('window', query.window);
+  if (query.gameIds?.length) params.set('games', query.gameIds.join(','));
+
+  const response = await fetch(`/api/leaderboard?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch leaderboard: ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,126 @@
+import { parseEther } from 'viem';
+import {
+  DEFAULT_SORT_ORDER,
+  GAME_LIST_FILTERS,
+  GAME_LIST_SORTS,
+  GAME_SEARCH_PATTERN,
+  GameListFilter,
+  GameListSort,
+  GamesQuery,
+  SORT_ORDERS,
+  SortOrder,
+} from './gamesApi';
+
+// ============ Types ============
+
+/**
+ * The lobby's tab, sort and filters as kept in its URL. Values are what the
+ * user typed (ETH, minutes) so shared links stay readable.
+ */
+export interface LobbyView {
+  status: GameListFilter;
+  sort: GameListSort;
+  order: SortOrder;
+  /** Contract id; the chain's current contract when null */
+  deployment: string | null;
+  search: string;
+  minEntryFee: string;
+  maxEntryFee: string;
+  minRoundMinutes: string;
+  maxRoundMinutes: string;
+}
+
+export const DEFAULT_LOBBY_VIEW: LobbyView = {
+  status: 'open',
+  sort: 'newest',
+  order: DEFAULT_SORT_ORDER.newest,
+  deployment: null,
+  search: '',
+  minEntryFee: '',
+  maxEntryFee: '',
+  minRoundMinutes: '',
+  maxRoundMinutes: '',
+};
+
+/** LobbyView field to its URL param */
+const PARAM_NAMES: Record<keyof LobbyView, string> = {
+  status: 'status',
+  sort: 'sort',
+  order: 'order',
+  deployment: 'deployment',
+  search: 'q',
+  minEntryFee: 'minFee',
+  maxEntryFee: 'maxFee',
+  minRoundMinutes: 'minRound',
+  maxRoundMinutes: 'maxRound',
+};
+
+// ============ URL ============
+
+function oneOf<T extends string>(values: readonly T[], value: string | null, fallback: T): T {
+  return value !== null && (values as readonly string[]).includes(value) ? (value as T) : fallback;
+}
+
+/** Read the view from URL params; unknown values fall back to the defaults */
+export function readLobbyView(params: URLSearchParams): LobbyView {
+  const text = (field: keyof LobbyView) => params.get(PARAM_NAMES[field])?.trim() ?? '';
+  const sort = oneOf(GAME_LIST_SORTS, params.get(PARAM_NAMES.sort), DEFAULT_LOBBY_VIEW.sort);
+  return {
+    status: oneOf(GAME_LIST_FILTERS, params.get(PARAM_NAMES.status), DEFAULT_LOBBY_VIEW.status),
+    sort,
+    order: oneOf(SORT_ORDERS, params.get(PARAM_NAMES.order), DEFAULT_SORT_ORDER[sort]),
+    deployment: params.get(PARAM_NAMES.deployment),
+    search: text('search'),
+    minEntryFee: text('minEntryFee'),
+    maxEntryFee: text('maxEntryFee'),
+    minRoundMinutes: text('minRoundMinutes'),
+    maxRoundMinutes: text('maxRoundMinutes'),
+  };
+}
+
+/** URL params for a view, leaving out anything at its default */
+export function lobbyViewParams(view: LobbyView): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_NAMES) as (keyof LobbyView)[]).forEach((field) => {
+    const value = view[field];
+    const fallback = field === 'order' ? DEFAULT_SORT_ORDER[view.sort] : DEFAULT_LOBBY_VIEW[field];
+    if (value && value !== fallback) params.set(PARAM_NAMES[field], value);
+  });
+  return params;
+}
+
+// ============ API query ============
+
+function toWei(eth: string): bigint | undefined {
+  if (!eth) return undefined;
+  try {
+    const wei = parseEther(eth);
+    return wei >= 0n ? wei : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toSeconds(minutes: string): number | undefined {
+  const value = Number(minutes);
+  return minutes && Number.isFinite(value) && value >= 0 ? Math.round(value * 60) : undefined;
+}
+
+/** Whether `search` is something /api/games can look up */
+export function isValidSearch(search: string): boolean {
+  return search === '' || GAME_SEARCH_PATTERN.test(search);
+}
+
+/** /api/games filters for a view; values that don't parse are ignored */
+export function lobbyViewQuery(view: LobbyView): GamesQuery {
+  return {
+    status: view.status,
+    sort: view.sort,
+    order: view.order,
+    search: view.search && isValidSearch(view.search) ? view.search : undefined,
+    minEntryFee: toWei(view.minEntryFee),
+    maxEntryFee: toWei(view.maxEntryFee),
+    minRoundDuration: toSeconds(view.minRoundMinutes),
+    maxRoundDuration: toSeconds(view.maxRoundMinutes),
+  };
+}
@@ -0,0 +1,167 @@
+import { Address, ContractFunctionParameters, createPublicClient, namehash, parseAbi } from 'viem';
+import { base, mainnet } from 'viem/chains';
+import { normalize } from 'viem/ens';
+import { rpcTransport } from './rpc';
+import { parseUrls } from './deployments';
+import { ResolvedName } from './namesApi';
+
+// ============ Config ============
+
+/** Basenames L2 resolver on Base mainnet (reverse, addr and text records) */
+const BASENAME_RESOLVER: Address = '0xC6d566A56A1aFf6508b41f6c90ff131615583BCD';
+
+/** ENSIP-11 coin type of Base mainnet, the parent of Basename reverse records */
+const BASE_COIN_TYPE = ((0x80000000 | base.id) >>> 0).toString(16);
+
+/** How long a resolved name is served from cache */
+const NAME_TTL_MS = 60 * 60_000;
+
+/** Addresses without a name are rechecked sooner, so a newly set name shows up */
+const MISS_TTL_MS = 10 * 60_000;
+
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+const l2ResolverAbi = parseAbi([
+  'function name(bytes32 node) view returns (string)',
+  'function addr(bytes32 node) view returns (address)',
+  'function text(bytes32 node, string key) view returns (string)',
+]);
+
+// Names live on Base and Ethereum mainnet whichever chain the game is on
+const basenameClient = createPublicClient({
+  chain: base,
+  transport: rpcTransport(parseUrls(process.env.NEXT_PUBLIC_RPC_URLS_BASE, base.rpcUrls.default.http[0])),
+});
+
+// Concurrent ENS lookups are folded into one multicall
+const ensClient = createPublicClient({
+  chain: mainnet,
+  transport: rpcTransport(parseUrls(process.env.ENS_RPC_URLS, mainnet.rpcUrls.default.http[0])),
+  batch: { multicall: true },
+});
+
+type MulticallResult = { status: 'success'; result: unknown } | { status: 'failure'; error: Error };
+
+const NO_NAME: ResolvedName = { name: null, avatar: null };
+
+// ============ Helpers ============
+
+function normalizedName(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null;
+  try {
+    return normalize(value);
+  } catch {
+    return null;
+  }
+}
+
+/** Only URLs a browser can load; NFT (eip155:) avatars aren't resolved */
+function avatarUrl(record: unknown): string | null {
+  if (typeof record !== 'string') return null;
+  if (record.startsWith('https://') || record.startsWith('data:image/')) return record;
+  if (record.startsWith('ipfs://')) return IPFS_GATEWAY + record.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  return null;
+}
+
+/**
+ * Per-lookup failures read as "no name", but a batch where every lookup
+ * failed (RPC down) throws so the misses aren't cached.
+ */
+async function settleAll<T>(lookups: Promise<T>[]): Promise<(T | null)[]> {
+  const results = await Promise.allSettled(lookups);
+  const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failed && results.every((result) => result.status === 'rejected')) throw failed.reason;
+  return results.map((result) => (result.status === 'fulfilled' ? result.value : null));
+}
+
+// ============ Lookups ============
+
+async function lookupBasenames(addresses: Address[]): Promise<ResolvedName[]> {
+  const reverse = await basenameClient.multicall({
+    contracts: addresses.map((address) => ({
+      address: BASENAME_RESOLVER,
+      abi: l2ResolverAbi,
+      functionName: 'name',
+      args: [namehash(`${address.slice(2).toLowerCase()}.${BASE_COIN_TYPE}.reverse`)],
+    })),
+    allowFailure: true,
+    batchSize: 0,
+  }) as MulticallResult[];
+
+  const named = addresses.flatMap((address, i) => {
+    const name = reverse[i].status === 'success' ? normalizedName(reverse[i].result) : null;
+    return name ? [{ i, address, name, node: namehash(name) }] : [];
+  });
+  const records = addresses.map(() => NO_NAME);
+  if (named.length === 0) return records;
+
+  const contracts: ContractFunctionParameters[] = named.flatMap(({ node }) => [
+    { address: BASENAME_RESOLVER, abi: l2ResolverAbi, functionName: 'addr', args: [node] },
+    { address: BASENAME_RESOLVER, abi: l2ResolverAbi, functionName: 'text', args: [node, 'avatar'] },
+  ]);
+  const forward = await basenameClient.multicall({ contracts, allowFailure: true, batchSize: 0 }) as MulticallResult[];
+
+  named.forEach(({ i, address, name }, j) => {
+    const addr = forward[2 * j];
+    const avatar = forward[2 * j + 1];
+    // Anyone can point their reverse record at any name; only trust names that resolve back
+    if (addr.status !== 'success' || String(addr.result).toLowerCase() !== address.toLowerCase()) return;
+    records[i] = { name, avatar: avatar.status === 'success' ? avatarUrl(avatar.result) : null };
+  });
+  return records;
+}
+
+/** ENS primary names; the universal resolver already checks they resolve back */
+async function lookupEnsNames(addresses: Address[]): Promise<ResolvedName[]> {
+  if (addresses.length === 0) return [];
+  const names = (await settleAll(addresses.map((address) => ensClient.getEnsName({ address })))).map(normalizedName);
+  const avatars = await settleAll(
+    names.map((name) => (name ? ensClient.getEnsText({ name, key: 'avatar' }) : Promise.resolve(null)))
+  );
+  return names.map((name, i) => (name ? { name, avatar: avatarUrl(avatars[i]) } : NO_NAME));
+}
+
+/** Basename first, ENS for addresses without one */
+async function lookupNames(addresses: Address[]): Promise<ResolvedName[]> {
+  const basenames = await lookupBasenames(addresses);
+  const ens = await lookupEnsNames(addresses.filter((_, i) => !basenames[i].name));
+  let next = 0;
+  return basenames.map((record) => (record.name ? record : ens[next++]));
+}
+
+// ============ Cache ============
+
+const cache = new Map<string, { record: Promise<ResolvedName>; expiresAt: number }>();
+
+/**
+ * Names and avatars of `addresses`, keyed by lowercased address. Cached per
+ * address across requests; uncached addresses are looked up together in a
+ * couple of multicalls, and lookups already in flight are shared.
+ */
+export async function resolveNames(addresses: Address[]): Promise<Record<string, ResolvedName>> {
+  const now = Date.now();
+  const keys = [...new Set(addresses.map((address) => address.toLowerCase()))];
+  const missing = keys.filter((key) => (cache.get(key)?.expiresAt ?? 0) <= now);
+
+  if (missing.length > 0) {
+    const lookup = lookupNames(missing as Address[]);
+    missing.forEach((key, i) => {
+      const record = lookup.then((records) => records[i]);
+      const entry = { record, expiresAt: now + NAME_TTL_MS };
+      cache.set(key, entry);
+      record.then(
+        (resolved) => {
+          if (!resolved.name) entry.expiresAt = Date.now() + MISS_TTL_MS;
+        },
+        () => {
+          // Don't keep a failed lookup around for the whole TTL
+          if (cache.get(key) === entry) cache.delete(key);
+        }
+      );
+    });
+  }
+
+  const records = keys.map((key) => cache.get(key)!.record);
+  const resolved = await Promise.all(records);
+  return Object.fromEntries(keys.map((key, i) => [key, resolved[i]]));
+}
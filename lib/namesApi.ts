@@ -0,0 +1,35 @@
+/**
+ * Name resolution API types and client fetcher (safe to import from client components)
+ */
+
+/** Reverse-resolved name of an address: Basename first, then ENS */
+export interface ResolvedName {
+  name: string | null;
+  /** https or data: URL of the name's avatar record */
+  avatar: string | null;
+}
+
+export interface NamesResponse {
+  /** Keyed by lowercased address */
+  names: Record<string, ResolvedName>;
+}
+
+/** Addresses accepted per /api/names request */
+export const MAX_NAMES_PER_REQUEST = 200;
+
+/** 0x1234...abcd */
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Fetch the names of up to MAX_NAMES_PER_REQUEST addresses (client side)
+ */
+export async function fetchNames(addresses: string[]): Promise<NamesResponse> {
+  const params = new URLSearchParams({ addresses: addresses.join(',') });
+  const response = await fetch(`/api/names?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to resolve names: ${response.status}`);
+  }
+  return response.json();
+}
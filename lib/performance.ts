@@ -0,0 +1,83 @@
+import { gainPercentOf } from './scoring';
+
+// ============ Types ============
+
+/** Round number to ETH snapshot, as built by the game page */
+export type SnapshotSeries = Map<number, bigint>;
+
+export interface PerformancePoint {
+  /** 0 is the baseline (round 1 start); n is the end of round n */
+  round: number;
+  /** Gain since the start of round 1, in percent */
+  gainPercent: number;
+}
+
+export interface PlayerSeries {
+  address: string;
+  points: PerformancePoint[];
+  /** Round the player went out in, null while alive */
+  eliminatedRound: number | null;
+}
+
+/** Where a round's cut fell, on the cumulative scale the chart plots */
+export interface RoundCut {
+  round: number;
+  cutoffRank: number;
+  /** Round gain of the last player to survive the round */
+  roundGainPercent: number;
+  /** That player's cumulative gain at the end of the round */
+  gainPercent: number;
+}
+
+// ============ Series ============
+
+/**
+ * Cumulative gain per round for every player, from the round start/end ETH
+ * snapshots, plus the cut for each round whose cutoff rank is known. Rounds
+ * without an end snapshot are left out of a player's line.
+ */
+export function buildPerformanceSeries(
+  starts: Map<string, SnapshotSeries>,
+  ends: Map<string, SnapshotSeries>,
+  eliminatedRounds: Map<string, number>,
+  cutoffRanks: Map<number, number>
+): { series: PlayerSeries[]; cuts: RoundCut[] } {
+  const addresses = new Set([...starts.keys(), ...ends.keys()]);
+  const roundGains = new Map<number, Array<{ roundGain: number; gainPercent: number }>>();
+
+  const series = Array.from(addresses).map((address): PlayerSeries => {
+    const playerStarts = starts.get(address) ?? new Map<number, bigint>();
+    const playerEnds = ends.get(address) ?? new Map<number, bigint>();
+    const baseline = playerStarts.get(1) ?? 0n;
+    const points: PerformancePoint[] = baseline > 0n ? [{ round: 0, gainPercent: 0 }] : [];
+
+    const rounds = Array.from(playerEnds.keys()).sort((a, b) => a - b);
+    for (const round of rounds) {
+      const endETH = playerEnds.get(round)!;
+      if (endETH === 0n || baseline === 0n) continue;
+      const gainPercent = gainPercentOf(baseline, endETH);
+      points.push({ round, gainPercent });
+
+      const roundStart = playerStarts.get(round) ?? playerEnds.get(round - 1);
+      if (roundStart) {
+        const entries = roundGains.get(round) ?? [];
+        entries.push({ roundGain: gainPercentOf(roundStart, endETH), gainPercent });
+        roundGains.set(round, entries);
+      }
+    }
+
+    return { address, points, eliminatedRound: eliminatedRounds.get(address) ?? null };
+  });
+
+  const cuts: RoundCut[] = [];
+  for (const [round, cutoffRank] of cutoffRanks) {
+    const entries = (roundGains.get(round) ?? []).sort((a, b) => b.roundGain - a.roundGain);
+    // Nobody was cut when the cutoff covers the whole field
+    if (cutoffRank < 1 || cutoffRank >= entries.length) continue;
+    const last = entries[cutoffRank - 1];
+    cuts.push({ round, cutoffRank, roundGainPercent: last.roundGain, gainPercent: last.gainPercent });
+  }
+  cuts.sort((a, b) => a.round - b.round);
+
+  return { series, cuts };
+}
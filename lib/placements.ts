@@ -0,0 +1,87 @@
+import { Address } from 'viem';
+
+// ============ Prize split ============
+
+/** Share of the prize pool paid to 1st / 2nd / 3rd, in percent */
+export const PRIZE_SHARES = { first: 60n, second: 30n, third: 10n } as const;
+
+export interface PrizeSplit {
+  first: bigint;
+  second: bigint;
+  third: bigint;
+}
+
+/** Split a prize pool 60 / 30 / 10, rounding each share down like the contract */
+export function splitPrizePool(pool: bigint): PrizeSplit {
+  return {
+    first: (pool * PRIZE_SHARES.first) / 100n,
+    second: (pool * PRIZE_SHARES.second) / 100n,
+    third: (pool * PRIZE_SHARES.third) / 100n,
+  };
+}
+
+// ============ Placement inference ============
+
+export interface PlacementInput {
+  address: Address;
+  alive: boolean;
+  /** Round the player was knocked out in; 0 while alive */
+  eliminationRound: number;
+  /** Orders players who finished level (still alive, or out in the same round); higher is better */
+  gainPercent?: number;
+}
+
+export interface InferredPlacements {
+  first: Address | null;
+  second: Address | null;
+  third: Address | null;
+  /** Everyone else, best finish first: players still alive, then later eliminations */
+  others: PlacementInput[];
+}
+
+/**
+ * Infer the top 3 of a finished game from alive status and elimination
+ * rounds, matching the contract: 1st is the last alive player, 2nd the first
+ * player eliminated in the final round, 3rd the first eliminated in the round
+ * before. Used when the game's PrizePaid events can't be read.
+ *
+ * A finished game has one survivor; if several are still alive they are
+ * ordered by gain and all finish ahead of every eliminated player.
+ */
+export function inferPlacements(players: PlacementInput[], finalRound: number): InferredPlacements {
+  const byGain = (a: PlacementInput, b: PlacementInput) => (b.gainPercent ?? 0) - (a.gainPercent ?? 0);
+  const alive = players.filter((player) => player.alive).sort(byGain);
+  const eliminated = players
+    .filter((player) => !player.alive)
+    .sort((a, b) => b.eliminationRound - a.eliminationRound || byGain(a, b));
+
+  const outInFinalRound = eliminated.find((player) => player.eliminationRound === finalRound);
+  const outInRoundBefore = finalRound > 1 ? eliminated.find((player) => player.eliminationRound === finalRound - 1) : undefined;
+  // Extra survivors take 2nd and 3rd ahead of the contract's eliminated picks
+  const runnersUp = alive.length > 1
+    ? [...alive.slice(1), outInFinalRound, outInRoundBefore].filter((player) => !!player)
+    : [outInFinalRound, outInRoundBefore];
+  const [first, second, third] = [alive[0], runnersUp[0], runnersUp[1]];
+  const placed = [first, second, third];
+
+  return {
+    first: first?.address ?? null,
+    second: second?.address ?? null,
+    third: third?.address ?? null,
+    others: [...alive, ...eliminated].filter((player) => !placed.includes(player)),
+  };
+}
+
+/**
+ * Prize per place for inferred placements. Shares for places nobody
+ * finished in go to 1st, as the contract pays them out.
+ */
+export function placementPrizes(placements: Pick<InferredPlacements, 'first' | 'second' | 'third'>, pool: bigint): PrizeSplit {
+  const split = splitPrizePool(pool);
+  if (!placements.first) return { first: 0n, second: 0n, third: 0n };
+  return {
+    first: split.first + (placements.second ? 0n : split.second) + (placements.third ? 0n : split.third),
+    second: placements.second ? split.second : 0n,
+    third: placements.third ? split.third : 0n,
+  };
+}
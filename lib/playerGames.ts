@@ -0,0 +1,114 @@
+import { Address, ContractFunctionParameters } from 'viem';
+import { getPublicClient } from './contract';
+import { getContractAbi } from './abis';
+import { ContractDeployment } from './deployments';
+import { decodePlayer, decodeRound, Round, serializeGame } from './decoders';
+import { getPlayerEvents, queryEvents } from './indexer';
+import { readGames, readGracePeriod } from './gameList';
+import { deriveGameStatus } from './gameStatus';
+import { rewardOf } from './earnings';
+import { PlayerGameEntry, PlayerGamesResponse, PlayerRewards } from './playerGamesApi';
+
+/** Events that tie a wallet to a game, pay it something or count against it */
+const PLAYER_GAME_EVENTS = [
+  'PlayerRegistered',
+  'PlayerEliminated',
+  'PenaltyApplied',
+  'PrizePaid',
+  'RoundStarted',
+  'FinalizationRewardPaid',
+  'GameCancelled',
+];
+
+type MulticallResult = { status: 'success'; result: unknown } | { status: 'failure'; error: Error };
+
+/**
+ * Every game `player` registered in, newest first, from the indexer's
+ * PlayerRegistered events plus one multicall for the player's record and
+ * the current round of each running game.
+ */
+export async function listPlayerGames(contract: ContractDeployment, player: Address): Promise<PlayerGamesResponse> {
+  const { events, indexedThrough, caughtUp } = await getPlayerEvents(contract, player, PLAYER_GAME_EVENTS);
+  const status = { indexedThrough: indexedThrough?.toString() ?? null, caughtUp };
+
+  const ids = [...new Set(
+    events.filter((event) => event.eventName === 'PlayerRegistered').map((event) => event.args.gameId as bigint)
+  )].sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+  if (ids.length === 0) return { ...status, games: [] };
+
+  const prizes = new Map<bigint, { place: number; amount: bigint }>();
+  const rewards = new Map<bigint, Record<keyof PlayerRewards, bigint>>();
+  const penalties = new Map<bigint, number>();
+  const eliminationReasons = new Map<bigint, string>();
+  for (const event of events) {
+    const gameId = event.args.gameId as bigint;
+    const reward = rewardOf(event);
+    if (event.eventName === 'PrizePaid') {
+      prizes.set(gameId, { place: Number(event.args.place), amount: event.args.amount as bigint });
+    } else if (event.eventName === 'PenaltyApplied') {
+      penalties.set(gameId, (penalties.get(gameId) ?? 0) + 1);
+    } else if (event.eventName === 'PlayerEliminated') {
+      eliminationReasons.set(gameId, String(event.args.reason ?? ''));
+    } else if (reward) {
+      const totals = rewards.get(gameId) ?? { start: 0n, finalization: 0n, cancel: 0n };
+      totals[reward.kind] += reward.amount;
+      rewards.set(gameId, totals);
+    }
+  }
+  // Player events only cover cancellations this wallet triggered; refunds go to everyone
+  const refunds = new Map<bigint, bigint>();
+  for (const event of queryEvents(contract, { eventNames: ['GameCancelled'] })) {
+    refunds.set(event.args.gameId as bigint, event.args.refundAmount as bigint);
+  }
+
+  const [games, gracePeriod] = await Promise.all([readGames(contract, ids), readGracePeriod(contract)]);
+  const running = ids.filter((id) => {
+    const game = games.get(id);
+    return game && game.startTime > 0n && !game.finalized && !game.cancelled;
+  });
+
+  const abi = getContractAbi(contract.abiVersion);
+  const contracts: ContractFunctionParameters[] = [
+    ...ids.map((id) => ({ address: contract.address, abi, functionName: 'players', args: [id, player] })),
+    ...running.map((id) => ({ address: contract.address, abi, functionName: 'rounds', args: [id, games.get(id)!.currentRound] })),
+  ];
+  const results = await getPublicClient(contract.chainId).multicall({ contracts, allowFailure: true, batchSize: 0 }) as MulticallResult[];
+
+  const rounds = new Map<bigint, Round>();
+  running.forEach((id, i) => {
+    const result = results[ids.length + i];
+    if (result.status === 'success') rounds.set(id, decodeRound(result.result, contract.abiVersion));
+  });
+
+  const now = Math.floor(Date.now() / 1000);
+  const entries = ids.flatMap((id, i): PlayerGameEntry[] => {
+    const game = games.get(id);
+    const result = results[i];
+    if (!game || result.status !== 'success') return [];
+    const record = decodePlayer(result.result, contract.abiVersion);
+    const round = rounds.get(id);
+    const prize = prizes.get(id);
+    const reward = rewards.get(id);
+    return [{
+      game: serializeGame(game),
+      status: deriveGameStatus(game, { now, gracePeriod, round }),
+      squareIndex: record.squareIndex,
+      alive: record.alive,
+      eliminationRound: Number(record.eliminationRound),
+      eliminationReason: record.eliminationReason || eliminationReasons.get(id) || '',
+      penaltyETH: record.penaltyETH.toString(),
+      penalties: penalties.get(id) ?? 0,
+      place: prize?.place ?? null,
+      prize: prize?.amount.toString() ?? null,
+      refund: game.cancelled ? (refunds.get(id)?.toString() ?? null) : null,
+      rewards: {
+        start: (reward?.start ?? 0n).toString(),
+        finalization: (reward?.finalization ?? 0n).toString(),
+        cancel: (reward?.cancel ?? 0n).toString(),
+      },
+      roundEndTime: round && round.endTime > 0n ? Number(round.endTime) : null,
+    }];
+  });
+
+  return { ...status, games: entries };
+}
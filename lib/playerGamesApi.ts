@@ -0,0 +1,59 @@
+import { Address } from 'viem';
+import { SerializedGame } from './decoders';
+import { GameStatus } from './gameStatus';
+import { EventsResponse } from './events';
+
+export interface PlayerRewards {
+  /** `RoundStarted.reward` for starting the game */
+  start: string;
+  /** `FinalizationRewardPaid.rewardAmount`, summed over rounds */
+  finalization: string;
+  /** `GameCancelled.reward` for cancelling it */
+  cancel: string;
+}
+
+/** One game a wallet registered in, as returned by /api/player/:address/games */
+export interface PlayerGameEntry {
+  game: SerializedGame;
+  status: GameStatus;
+  squareIndex: number;
+  alive: boolean;
+  /** Round the player was knocked out in; 0 while alive */
+  eliminationRound: number;
+  eliminationReason: string;
+  /** ETH penalties the contract applied (`players().penaltyETH`), in wei */
+  penaltyETH: string;
+  /** PenaltyApplied events against the player, across tokens */
+  penalties: number;
+  /** Final placing from PrizePaid, null without a prize */
+  place: number | null;
+  /** Wei */
+  prize: string | null;
+  /** Per-player refund from GameCancelled, in wei */
+  refund: string | null;
+  /** Keeper rewards paid to the wallet, in wei */
+  rewards: PlayerRewards;
+  /** End of the current round (unix seconds) while the game is running */
+  roundEndTime: number | null;
+}
+
+export interface PlayerGamesResponse extends Pick<EventsResponse, 'indexedThrough' | 'caughtUp'> {
+  /** Newest game first */
+  games: PlayerGameEntry[];
+}
+
+export function totalRewards(rewards: PlayerRewards): bigint {
+  return BigInt(rewards.start) + BigInt(rewards.finalization) + BigInt(rewards.cancel);
+}
+
+/**
+ * Fetch every game a wallet registered in on one deployment (client side)
+ */
+export async function fetchPlayerGames(deploymentId: string, player: Address): Promise<PlayerGamesResponse> {
+  const params = new URLSearchParams({ deployment: deploymentId });
+  const response = await fetch(`/api/player/${player}/games?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch games for ${player}: ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,55 @@
+import { netEarnings } from './earnings';
+import { PlayerGameEntry, totalRewards } from './playerGamesApi';
+
+// ============ Lifetime totals ============
+
+export interface PlayerTotals {
+  played: number;
+  /** Games that reached a final result (finalized, not cancelled) */
+  finished: number;
+  wins: number;
+  /** Finishes in the prize places */
+  podiums: number;
+  /** Wins over finished games, null before the first finish */
+  winRate: number | null;
+  /** All in wei */
+  entryFees: bigint;
+  prizes: bigint;
+  refunds: bigint;
+  rewards: bigint;
+  penaltyETH: bigint;
+  /** Prizes, refunds and rewards minus entry fees; penalties only cost score, not ETH */
+  net: bigint;
+}
+
+/** Lifetime totals over every game a wallet played */
+export function summarizePlayerGames(entries: Pick<PlayerGameEntry, 'game' | 'place' | 'prize' | 'refund' | 'rewards' | 'penaltyETH'>[]): PlayerTotals {
+  const totals = {
+    played: entries.length,
+    finished: 0,
+    wins: 0,
+    podiums: 0,
+    entryFees: 0n,
+    prizes: 0n,
+    refunds: 0n,
+    rewards: 0n,
+    penaltyETH: 0n,
+  };
+
+  for (const entry of entries) {
+    if (entry.game.finalized) totals.finished++;
+    if (entry.place === 1) totals.wins++;
+    if (entry.place !== null) totals.podiums++;
+    totals.entryFees += BigInt(entry.game.entryFee);
+    totals.prizes += BigInt(entry.prize ?? 0);
+    totals.refunds += BigInt(entry.refund ?? 0);
+    totals.rewards += totalRewards(entry.rewards);
+    totals.penaltyETH += BigInt(entry.penaltyETH);
+  }
+
+  return {
+    ...totals,
+    winRate: totals.finished > 0 ? totals.wins / totals.finished : null,
+    net: netEarnings(totals),
+  };
+}
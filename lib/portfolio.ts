@@ -0,0 +1,174 @@
+import { Address } from 'viem';
+import { getPublicClient } from './contract';
+import { getContractAbi } from './abis';
+import { ContractDeployment, getDeployment } from './deployments';
+import { DEFAULT_FEE, ERC20_ABI, isNativeETH, QUOTER_V2_ABI } from './uniswap';
+import { gainPercentOf } from './scoring';
+
+// ============ Types ============
+
+/** A whitelisted ERC-20 with its current price */
+export interface PricedToken {
+  address: Address;
+  symbol: string;
+  decimals: number;
+  /** Wei per whole token, null when there's no pool to quote against */
+  priceETH: bigint | null;
+}
+
+export interface PriceTable {
+  tokens: PricedToken[];
+  /** USDC units (6 decimals) per 1 ETH, null when unquotable */
+  ethUSD: bigint | null;
+}
+
+export interface PriceTableResult {
+  prices: PriceTable;
+  /** RPC requests the load cost; 0 when served from the cache */
+  rpcCalls: number;
+}
+
+export interface TokenHolding {
+  address: Address | 'native';
+  symbol: string;
+  decimals: number;
+  balance: bigint;
+  /** Value in wei, null when the token couldn't be priced */
+  valueETH: bigint | null;
+}
+
+export interface Portfolio {
+  holdings: TokenHolding[];
+  /** Native ETH plus every priced token, in wei */
+  totalETH: bigint;
+  /** `totalETH` in USDC units (6 decimals), null without an ETH price */
+  totalUSD: bigint | null;
+}
+
+// ============ Prices ============
+
+/** Quotes move slowly next to round lengths; one table serves a board load and its refreshes */
+const PRICE_TTL_MS = 60_000;
+
+const ONE_ETH = 10n ** 18n;
+
+const priceTables = new Map<string, { table: Promise<PriceTableResult>; fetchedAt: number }>();
+
+/** Quote `amountIn` of `tokenIn` into `tokenOut` through QuoterV2; null when there's no pool */
+async function quote(chainId: number, tokenIn: Address, tokenOut: Address, amountIn: bigint): Promise<bigint | null> {
+  const deployment = getDeployment(chainId);
+  try {
+    const { result } = await getPublicClient(chainId).simulateContract({
+      address: deployment.uniswap.quoterV2,
+      abi: QUOTER_V2_ABI,
+      functionName: 'quoteExactInputSingle',
+      args: [{ tokenIn, tokenOut, amountIn, fee: DEFAULT_FEE, sqrtPriceLimitX96: 0n }],
+    });
+    return result[0];
+  } catch {
+    return null;
+  }
+}
+
+async function loadPriceTable(contract: ContractDeployment): Promise<PriceTableResult> {
+  const publicClient = getPublicClient(contract.chainId);
+  const { uniswap, tokens: knownTokens } = getDeployment(contract.chainId);
+
+  const whitelisted = await publicClient.readContract({
+    address: contract.address,
+    abi: getContractAbi(contract.abiVersion),
+    functionName: 'getWhitelistedTokens',
+  }) as Address[];
+
+  const metadata = await publicClient.multicall({
+    contracts: whitelisted.flatMap((address) => [
+      { address, abi: ERC20_ABI, functionName: 'symbol' },
+      { address, abi: ERC20_ABI, functionName: 'decimals' },
+    ]),
+    allowFailure: true,
+    batchSize: 0,
+  });
+
+  let quotes = 0;
+  const tokens = await Promise.all(whitelisted.map(async (address, i): Promise<PricedToken> => {
+    const [symbolResult, decimalsResult] = metadata.slice(i * 2, i * 2 + 2);
+    const symbol = symbolResult.status === 'success' ? String(symbolResult.result) : `${address.slice(0, 6)}…`;
+    const decimals = decimalsResult.status === 'success' ? Number(decimalsResult.result) : 18;
+    const isWeth = address.toLowerCase() === uniswap.weth.toLowerCase();
+    if (!isWeth) quotes++;
+    const priceETH = isWeth ? ONE_ETH : await quote(contract.chainId, address, uniswap.weth, 10n ** BigInt(decimals));
+    return { address, symbol, decimals, priceETH };
+  }));
+
+  const usdc = knownTokens.find((token) => token.symbol === 'USDC' && !isNativeETH(token));
+  const ethUSD = usdc ? await quote(contract.chainId, uniswap.weth, usdc.address as Address, ONE_ETH) : null;
+  if (usdc) quotes++;
+
+  // getWhitelistedTokens, the metadata multicall and one eth_call per quote
+  return { prices: { tokens, ethUSD }, rpcCalls: 2 + quotes };
+}
+
+/**
+ * Whitelisted tokens for a contract, priced into ETH (and ETH into USD)
+ * through Uniswap QuoterV2. Cached for PRICE_TTL_MS per contract.
+ */
+export function fetchPriceTable(contract: ContractDeployment): Promise<PriceTableResult> {
+  const cached = priceTables.get(contract.id);
+  if (cached && Date.now() - cached.fetchedAt < PRICE_TTL_MS) {
+    return cached.table.then(({ prices }) => ({ prices, rpcCalls: 0 }));
+  }
+
+  const table = loadPriceTable(contract);
+  priceTables.set(contract.id, { table, fetchedAt: Date.now() });
+  // Don't keep a failed load around for the whole TTL
+  table.catch(() => priceTables.delete(contract.id));
+  return table;
+}
+
+/**
+ * The chain's known ERC-20s with no prices, for when the price table can't
+ * be loaded: token balances are still read and listed, but the portfolio is
+ * valued in ETH alone.
+ */
+export function unpricedTokenTable(chainId: number): PriceTable {
+  const tokens = getDeployment(chainId).tokens
+    .filter((token) => !isNativeETH(token))
+    .map((token) => ({ address: token.address as Address, symbol: token.symbol, decimals: token.decimals, priceETH: null }));
+  return { tokens, ethUSD: null };
+}
+
+// ============ Valuation ============
+
+/**
+ * Value a wallet from its native balance and its balance of each token in
+ * `prices.tokens` (same order). Unpriced tokens are listed but add nothing.
+ */
+export function valuePortfolio(nativeBalance: bigint, tokenBalances: bigint[], prices: PriceTable): Portfolio {
+  const holdings: TokenHolding[] = [
+    { address: 'native', symbol: 'ETH', decimals: 18, balance: nativeBalance, valueETH: nativeBalance },
+  ];
+  prices.tokens.forEach((token, i) => {
+    const balance = tokenBalances[i] ?? 0n;
+    if (balance === 0n) return;
+    const valueETH = token.priceETH === null ? null : balance * token.priceETH / 10n ** BigInt(token.decimals);
+    holdings.push({ address: token.address, symbol: token.symbol, decimals: token.decimals, balance, valueETH });
+  });
+
+  const totalETH = holdings.reduce((sum, holding) => sum + (holding.valueETH ?? 0n), 0n);
+  const totalUSD = prices.ethUSD === null ? null : totalETH * prices.ethUSD / ONE_ETH;
+  return { holdings, totalETH, totalUSD };
+}
+
+/**
+ * Portfolio gain %: USD value against `startValueUSDC` when both are known,
+ * otherwise ETH value against `startETH`.
+ */
+export function portfolioGainPercent(
+  portfolio: Portfolio,
+  start: { startETH: bigint; startValueUSDC: bigint }
+): number {
+  if (portfolio.totalUSD !== null && start.startValueUSDC > 0n) {
+    return gainPercentOf(start.startValueUSDC, portfolio.totalUSD);
+  }
+  return gainPercentOf(start.startETH, portfolio.totalETH);
+}
@@ -0,0 +1,204 @@
+import { Address } from 'viem';
+import { SerializedEvent } from './events';
+import { gainPercentOf } from './scoring';
+
+// ============ Types ============
+
+/** Events the replay is rebuilt from */
+export const REPLAY_EVENTS = [
+  'PlayerRegistered',
+  'RoundStarted',
+  'RoundSnapshotTaken',
+  'RoundEndSnapshotTaken',
+  'PlayerEliminated',
+  'RoundFinalized',
+  'FinalizationRewardPaid',
+] as const;
+
+/** One square as it stood at a replay step; matches the GameBoard player shape */
+export interface ReplayPlayer {
+  wallet: Address;
+  squareIndex: number;
+  rank: number;
+  isEliminated: boolean;
+  /** Gain since the player's round 1 start snapshot */
+  gainPercent: number;
+  balance: bigint;
+}
+
+export interface ReplayFinalization {
+  round: number;
+  survivors: number;
+  finalizer: Address | null;
+  reward: bigint | null;
+}
+
+/** Part of a step label: plain text, or a wallet the UI shows by name */
+export type StepLabelPart = string | { address: Address };
+
+export interface ReplayStep {
+  label: StepLabelPart[];
+  round: number;
+  players: ReplayPlayer[];
+  /** Rounds finalized up to and including this step */
+  finalizations: ReplayFinalization[];
+}
+
+interface PlayerState {
+  wallet: Address;
+  squareIndex: number;
+  baseline: bigint;
+  roundStart: bigint;
+  balance: bigint;
+  eliminated: boolean;
+}
+
+// ============ Replay ============
+
+/** Alive players ranked by gain in the current round, then everyone eliminated */
+function snapshot(players: Map<string, PlayerState>): ReplayPlayer[] {
+  const list = Array.from(players.values());
+  const roundGain = (player: PlayerState) => (player.eliminated ? -Infinity : gainPercentOf(player.roundStart, player.balance));
+  const ranked = [...list].sort((a, b) => roundGain(b) - roundGain(a) || a.squareIndex - b.squareIndex);
+  const ranks = new Map(ranked.map((player, index) => [player.wallet, index + 1]));
+  return list.map((player) => ({
+    wallet: player.wallet,
+    squareIndex: player.squareIndex,
+    rank: ranks.get(player.wallet)!,
+    isEliminated: player.eliminated,
+    gainPercent: gainPercentOf(player.baseline, player.balance),
+    balance: player.balance,
+  }));
+}
+
+/** Events that land in the same step; a round's finalization and its reward are one step */
+function stepKey(event: SerializedEvent): string {
+  const kind = event.eventName === 'FinalizationRewardPaid' ? 'RoundFinalized' : event.eventName;
+  return `${kind}:${event.args.roundNumber ?? ''}`;
+}
+
+/**
+ * Rebuild the board after each group of events, oldest first. Consecutive
+ * events of one kind in one round (e.g. a round's start snapshots) form a
+ * single step. Events must be in chain order, as the indexer returns them.
+ */
+export function buildReplay(events: SerializedEvent[]): ReplayStep[] {
+  const players = new Map<string, PlayerState>();
+  const finalizations: ReplayFinalization[] = [];
+  const rewards = new Map<number, { finalizer: Address; reward: bigint }>();
+  const steps: ReplayStep[] = [];
+  let round = 0;
+
+  const player = (address: string) => players.get(address.toLowerCase());
+
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    const { args } = event;
+
+    switch (event.eventName) {
+      case 'PlayerRegistered': {
+        const wallet = args.player as Address;
+        players.set(wallet.toLowerCase(), {
+          wallet,
+          squareIndex: Number(args.squareIndex),
+          baseline: 0n,
+          roundStart: 0n,
+          balance: 0n,
+          eliminated: false,
+        });
+        break;
+      }
+      case 'RoundStarted':
+        round = 1;
+        break;
+      case 'RoundSnapshotTaken': {
+        const state = player(String(args.player));
+        if (!state) break;
+        const ethBalance = BigInt(args.ethBalance as string);
+        round = Number(args.roundNumber);
+        state.roundStart = ethBalance;
+        state.balance = ethBalance;
+        if (state.baseline === 0n) state.baseline = ethBalance;
+        break;
+      }
+      case 'RoundEndSnapshotTaken': {
+        const state = player(String(args.player));
+        if (!state) break;
+        round = Number(args.roundNumber);
+        state.balance = BigInt(args.ethBalance as string);
+        break;
+      }
+      case 'PlayerEliminated': {
+        const state = player(String(args.player));
+        if (state) state.eliminated = true;
+        break;
+      }
+      case 'RoundFinalized': {
+        const reward = rewards.get(Number(args.roundNumber));
+        finalizations.push({
+          round: Number(args.roundNumber),
+          survivors: Number(args.survivors),
+          finalizer: reward?.finalizer ?? null,
+          reward: reward?.reward ?? null,
+        });
+        break;
+      }
+      case 'FinalizationRewardPaid': {
+        // The reward can be emitted either side of RoundFinalized in the same transaction
+        const reward = { finalizer: args.finalizer as Address, reward: BigInt(args.rewardAmount as string) };
+        rewards.set(Number(args.roundNumber), reward);
+        const finalization = finalizations.find((entry) => entry.round === Number(args.roundNumber));
+        if (finalization) Object.assign(finalization, reward);
+        break;
+      }
+    }
+
+    // Close the step at the end of a run of same-kind events
+    const next = events[i + 1];
+    if (next && stepKey(next) === stepKey(event)) continue;
+
+    const label = stepLabel(event, events, i, finalizations);
+    if (label) {
+      steps.push({ label, round, players: snapshot(players), finalizations: finalizations.map((entry) => ({ ...entry })) });
+    }
+  }
+
+  return steps;
+}
+
+function stepLabel(
+  event: SerializedEvent,
+  events: SerializedEvent[],
+  index: number,
+  finalizations: ReplayFinalization[]
+): StepLabelPart[] | null {
+  let runLength = 1;
+  while (index - runLength >= 0 && stepKey(events[index - runLength]) === stepKey(event)) runLength++;
+  const roundNumber = Number(event.args.roundNumber);
+
+  switch (event.eventName) {
+    case 'PlayerRegistered':
+      return [`${runLength} player${runLength === 1 ? '' : 's'} registered`];
+    case 'RoundStarted':
+      return ['Game started by ', { address: String(event.args.starter) as Address }];
+    case 'RoundSnapshotTaken':
+      return [`Round ${roundNumber} start snapshots`];
+    case 'RoundEndSnapshotTaken':
+      return [`Round ${roundNumber} end snapshots`];
+    case 'PlayerEliminated':
+      return [`${runLength} player${runLength === 1 ? '' : 's'} eliminated`];
+    case 'RoundFinalized':
+    case 'FinalizationRewardPaid': {
+      const finalization = finalizations[finalizations.length - 1];
+      if (!finalization) return null;
+      const by: StepLabelPart[] = finalization.finalizer ? [' by ', { address: finalization.finalizer }] : [];
+      return [
+        `Round ${finalization.round} finalized`,
+        ...by,
+        ` · ${finalization.survivors} survivor${finalization.survivors === 1 ? '' : 's'}`,
+      ];
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,235 @@
+import { Address } from 'viem';
+import { Round } from './decoders';
+import { EthScoringMode } from './scoring';
+
+// ============ Types ============
+
+/** What the standings need to know about one player */
+export interface StandingInput {
+  address: Address;
+  squareIndex: number;
+  alive: boolean;
+  /** `getRoundStartETH` snapshot; zero when the contract didn't take one */
+  roundStartETH: bigint;
+  /** Game-start ETH, the baseline when there's no round snapshot */
+  startETH: bigint;
+  currentETH: bigint;
+  /** `currentETH` less penalties, from `getAdjustedBalances` */
+  adjustedETH: bigint;
+}
+
+/** Where a player's baseline came from */
+export type BaselineSource = 'round' | 'game' | 'none';
+
+export type EliminationReason =
+  /** Gain is strictly below the last surviving rank */
+  | 'BELOW_CUTOFF'
+  /** Same gain as the last survivor, but registered later (higher square) */
+  | 'LOST_TIEBREAK';
+
+export type RoundOutcome =
+  | 'ELIMINATIONS'
+  /** Cutoff covers every alive player */
+  | 'NO_ELIMINATIONS'
+  /** Every alive player has the same gain, so everyone advances */
+  | 'ALL_TIED'
+  | 'LAST_PLAYER_STANDING'
+  | 'NO_PLAYERS';
+
+export interface PlayerStanding {
+  address: Address;
+  squareIndex: number;
+  /** 1 = best */
+  rank: number;
+  /** ETH gain since the baseline under the scoring mode, in percent */
+  gainPercent: number;
+  rawGainPercent: number;
+  adjustedGainPercent: number;
+  baseline: BaselineSource;
+  eliminated: boolean;
+  reason: EliminationReason | null;
+  /**
+   * ETH above (positive) or below (negative) the cut: how much a survivor can
+   * lose before dropping under it, or how much an eliminated player needs to
+   * reach it. Null when nobody can be eliminated or there's no baseline.
+   */
+  marginETH: bigint | null;
+}
+
+export interface RoundStandings {
+  /** Alive players, best first */
+  standings: PlayerStanding[];
+  /** Ranks 1..cutoff survive; the contract's cutoffRank clamped to [1, alive players] */
+  cutoff: number;
+  /** True when the contract's cutoffRank had to be clamped */
+  cutoffAdjusted: boolean;
+  /** Gain of the last surviving rank, null when nobody can be eliminated */
+  cutGainPercent: number | null;
+  eliminated: Address[];
+  outcome: RoundOutcome;
+}
+
+// ============ Engine ============
+
+/** Gains are compared at 1e-4 % precision so ties are exact */
+const GAIN_SCALE = 1_000_000n;
+
+function scaledGainOf(startETH: bigint, currentETH: bigint): bigint {
+  return startETH > 0n ? (currentETH - startETH) * GAIN_SCALE / startETH : 0n;
+}
+
+function toPercent(scaledGain: bigint): number {
+  return Number(scaledGain) / Number(GAIN_SCALE / 100n);
+}
+
+function baselineOf(player: StandingInput): { baseline: BaselineSource; startETH: bigint } {
+  if (player.roundStartETH > 0n) return { baseline: 'round', startETH: player.roundStartETH };
+  if (player.startETH > 0n) return { baseline: 'game', startETH: player.startETH };
+  return { baseline: 'none', startETH: 0n };
+}
+
+/**
+ * Rank the alive players of a round by ETH gain since their round-start
+ * snapshot (falling back to game-start ETH, then to 0 %), ties going to the
+ * lower square. Ranks past the cutoff are projected to be eliminated, except
+ * when every player is tied, in which case everyone advances. In 'adjusted'
+ * mode the current balance is taken after penalties.
+ */
+export function computeRoundStandings(
+  players: StandingInput[],
+  round: Pick<Round, 'cutoffRank'>,
+  mode: EthScoringMode = 'raw'
+): RoundStandings {
+  const ranked = players
+    .filter((player) => player.alive)
+    .map((player) => {
+      const { baseline, startETH } = baselineOf(player);
+      const rawGain = scaledGainOf(startETH, player.currentETH);
+      const adjustedGain = scaledGainOf(startETH, player.adjustedETH);
+      const scaledGain = mode === 'adjusted' ? adjustedGain : rawGain;
+      const scoredETH = mode === 'adjusted' ? player.adjustedETH : player.currentETH;
+      return { player, baseline, startETH, scoredETH, scaledGain, rawGain, adjustedGain };
+    })
+    .sort((a, b) => {
+      if (a.scaledGain !== b.scaledGain) return a.scaledGain > b.scaledGain ? -1 : 1;
+      return a.player.squareIndex - b.player.squareIndex;
+    });
+
+  const aliveCount = ranked.length;
+  const contractCutoff = Number(round.cutoffRank);
+  const cutoff = Math.min(Math.max(contractCutoff, 1), Math.max(aliveCount, 1));
+  const cutoffAdjusted = aliveCount > 0 && cutoff !== contractCutoff;
+
+  const allTied = aliveCount > 1 && ranked.every((entry) => entry.scaledGain === ranked[0].scaledGain);
+  const canEliminate = aliveCount > 1 && !allTied;
+  const lastSurvivorGain = ranked[cutoff - 1]?.scaledGain;
+  const firstEliminatedGain = ranked[cutoff]?.scaledGain;
+
+  const standings = ranked.map(({ player, baseline, startETH, scoredETH, scaledGain, rawGain, adjustedGain }, index): PlayerStanding => {
+    const rank = index + 1;
+    const eliminated = canEliminate && rank > cutoff;
+    // Survivors are measured against the best eliminated gain, the rest against the last survivor
+    const thresholdGain = eliminated ? lastSurvivorGain : firstEliminatedGain;
+    const marginETH = canEliminate && startETH > 0n && thresholdGain !== undefined
+      ? scoredETH - (startETH + startETH * thresholdGain / GAIN_SCALE)
+      : null;
+    return {
+      address: player.address,
+      squareIndex: player.squareIndex,
+      rank,
+      gainPercent: toPercent(scaledGain),
+      rawGainPercent: toPercent(rawGain),
+      adjustedGainPercent: toPercent(adjustedGain),
+      baseline,
+      eliminated,
+      reason: !eliminated ? null : scaledGain === lastSurvivorGain ? 'LOST_TIEBREAK' : 'BELOW_CUTOFF',
+      marginETH,
+    };
+  });
+  const eliminated = standings.filter((standing) => standing.eliminated).map((standing) => standing.address);
+
+  let outcome: RoundOutcome;
+  if (aliveCount === 0) outcome = 'NO_PLAYERS';
+  else if (aliveCount === 1) outcome = 'LAST_PLAYER_STANDING';
+  else if (allTied) outcome = 'ALL_TIED';
+  else outcome = eliminated.length > 0 ? 'ELIMINATIONS' : 'NO_ELIMINATIONS';
+
+  const cutGainPercent = canEliminate && lastSurvivorGain !== undefined ? toPercent(lastSurvivorGain) : null;
+
+  return { standings, cutoff, cutoffAdjusted, cutGainPercent, eliminated, outcome };
+}
+
+// ============ Survival targets ============
+
+export interface SurvivalTarget {
+  rank: number;
+  safe: boolean;
+  /** ETH the player has to gain to reach the cut; 0 when already safe */
+  neededETH: bigint;
+  /** `neededETH` as a percent of the player's scored balance */
+  neededPercent: number;
+  /** ETH the player would have to gain to match first place; 0 when first */
+  gapToFirstETH: bigint;
+  /** See PlayerStanding.marginETH */
+  marginETH: bigint | null;
+}
+
+/**
+ * How far one player is from safety and from first place, read off
+ * standings computed from `players` under the same mode. Null when the
+ * player isn't among the alive standings.
+ */
+export function survivalTarget(
+  standings: RoundStandings,
+  players: StandingInput[],
+  address: Address,
+  mode: EthScoringMode = 'raw'
+): SurvivalTarget | null {
+  const key = address.toLowerCase();
+  const standing = standings.standings.find((entry) => entry.address.toLowerCase() === key);
+  const player = players.find((entry) => entry.address.toLowerCase() === key);
+  if (!standing || !player) return null;
+
+  const scoredOf = (entry: StandingInput) => (mode === 'adjusted' ? entry.adjustedETH : entry.currentETH);
+  const { startETH } = baselineOf(player);
+  const scoredETH = scoredOf(player);
+  const neededETH = standing.eliminated && standing.marginETH !== null ? -standing.marginETH : 0n;
+
+  const leaderKey = standings.standings[0].address.toLowerCase();
+  const leader = players.find((entry) => entry.address.toLowerCase() === leaderKey)!;
+  const leaderGain = scaledGainOf(baselineOf(leader).startETH, scoredOf(leader));
+  const firstTarget = startETH + startETH * leaderGain / GAIN_SCALE;
+  const gapToFirstETH = standing.rank > 1 && firstTarget > scoredETH ? firstTarget - scoredETH : 0n;
+
+  return {
+    rank: standing.rank,
+    safe: !standing.eliminated,
+    neededETH,
+    neededPercent: scoredETH > 0n ? Number(neededETH * 10000n / scoredETH) / 100 : 0,
+    gapToFirstETH,
+    marginETH: standing.marginETH,
+  };
+}
+
+/** `players` with one wallet's balance moved by `deltaETH`, for what-if standings */
+export function withBalanceChange(players: StandingInput[], address: Address, deltaETH: bigint): StandingInput[] {
+  const key = address.toLowerCase();
+  return players.map((player) => player.address.toLowerCase() !== key ? player : {
+    ...player,
+    currentETH: player.currentETH + deltaETH,
+    adjustedETH: player.adjustedETH + deltaETH,
+  });
+}
+
+export const ELIMINATION_REASON_LABELS: Record<EliminationReason, string> = {
+  BELOW_CUTOFF: 'Below the cutoff',
+  LOST_TIEBREAK: 'Tied at the cutoff, registered later',
+};
+
+export const ROUND_OUTCOME_LABELS: Record<RoundOutcome, string> = {
+  ELIMINATIONS: 'Projected eliminations',
+  NO_ELIMINATIONS: 'Everyone is inside the cutoff',
+  ALL_TIED: 'All players tied - everyone advances',
+  LAST_PLAYER_STANDING: 'One player left - the game ends',
+  NO_PLAYERS: 'No alive players',
+};
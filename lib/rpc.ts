@@ -0,0 +1,116 @@
+import { Chain, createPublicClient, fallback, http, PublicClient, Transport } from 'viem';
+
+// ============ Config ============
+
+/** Per-request timeout in ms */
+export const RPC_TIMEOUT_MS = parseInt(process.env.NEXT_PUBLIC_RPC_TIMEOUT_MS || '10000');
+
+/** Max requests in flight across every client sharing the queue */
+const MAX_CONCURRENT_REQUESTS = parseInt(process.env.NEXT_PUBLIC_RPC_MAX_CONCURRENCY || '4');
+
+/** Retries of a rate-limited request before handing the 429 to the fallback transport */
+const MAX_RATE_LIMIT_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+// ============ Request Queue ============
+
+let activeRequests = 0;
+let pausedUntil = 0;
+const waiting: Array<() => void> = [];
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function acquireSlot(signal?: AbortSignal | null): Promise<void> {
+  while (activeRequests >= MAX_CONCURRENT_REQUESTS) {
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+  activeRequests++;
+  // Honour a backoff another request triggered while we were queued
+  const pause = pausedUntil - Date.now();
+  if (pause > 0) {
+    try {
+      await sleep(pause, signal);
+    } catch (error) {
+      releaseSlot();
+      throw error;
+    }
+  }
+}
+
+function releaseSlot() {
+  activeRequests--;
+  waiting.shift()?.();
+}
+
+function backoffDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers.get('retry-after'));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+  return Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+}
+
+/**
+ * fetch wrapper shared by every RPC transport. Caps concurrency and, when an
+ * endpoint answers 429, pauses the whole queue so other requests back off too.
+ */
+async function queuedFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const signal = init?.signal;
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot(signal);
+    let response: Response;
+    try {
+      response = await fetch(input, init);
+    } finally {
+      releaseSlot();
+    }
+    if (response.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) {
+      return response;
+    }
+    const delay = backoffDelay(response, attempt);
+    pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+    console.warn(`RPC rate limited, backing off ${delay}ms (attempt ${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`);
+    await sleep(delay, signal);
+  }
+}
+
+// ============ Transport & Client ============
+
+/**
+ * Transport over the URLs in order: each endpoint goes through the shared
+ * queue, and the next one is tried when an endpoint keeps failing.
+ */
+export function rpcTransport(urls: string[]): Transport {
+  const transports = urls.map((url) =>
+    http(url, {
+      fetchFn: queuedFetch,
+      timeout: RPC_TIMEOUT_MS,
+      // 429s are retried by the queue; other failures fall through to the next URL
+      retryCount: 0,
+    })
+  );
+  return fallback(transports, { retryCount: 2, retryDelay: BASE_BACKOFF_MS });
+}
+
+/** Public client for read operations; components share one per chain through `getPublicClient` in lib/contract */
+export function createRpcClient(chain: Chain, urls: string[]): PublicClient<Transport, Chain> {
+  return createPublicClient({
+    chain,
+    transport: rpcTransport(urls),
+  });
+}
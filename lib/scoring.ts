@@ -0,0 +1,30 @@
+// ============ Scoring ============
+
+/**
+ * How balances are scored. 'adjusted' subtracts the penalties the contract
+ * has applied (`getAdjustedBalances`); 'raw' is the wallet balance as-is.
+ * Both follow the contract's ETH-only rule. 'portfolio' also values the
+ * whitelisted tokens a player holds, for display only.
+ */
+export type ScoringMode = 'raw' | 'adjusted' | 'portfolio';
+
+/** The modes the contract's eliminations can be previewed under */
+export type EthScoringMode = Exclude<ScoringMode, 'portfolio'>;
+
+export const DEFAULT_SCORING_MODE: ScoringMode = 'adjusted';
+
+export const SCORING_MODE_LABELS: Record<ScoringMode, string> = {
+  raw: 'Raw balance',
+  adjusted: 'After penalties',
+  portfolio: 'Portfolio',
+};
+
+/** Elimination previews follow the contract, so 'portfolio' previews penalty-adjusted ETH */
+export function ethScoringMode(mode: ScoringMode): EthScoringMode {
+  return mode === 'portfolio' ? 'adjusted' : mode;
+}
+
+/** ETH gain from `startETH` to `currentETH` in percent, 2 decimals; 0 without a baseline */
+export function gainPercentOf(startETH: bigint, currentETH: bigint): number {
+  return startETH > 0n ? Number((currentETH - startETH) * 10000n / startETH) / 100 : 0;
+}
@@ -1,10 +1,6 @@
 import { Address } from 'viem';
 
-// ============ Uniswap V3 Contract Addresses (Base Sepolia) ============
-
-export const SWAP_ROUTER_ADDRESS: Address = '0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4';
-export const QUOTER_V2_ADDRESS: Address = '0xC5290058841028F1614F3A6F0F5816cAd0df5E27';
-export const WETH_ADDRESS: Address = '0x4200000000000000000000000000000000000006';
+// Router, quoter, WETH and token addresses are per chain, in lib/deployments.ts
 
 // ============ Token Definitions ============
 
@@ -16,30 +12,6 @@ export interface Token {
   logoColor: string;
 }
 
-export const TOKENS: Token[] = [
-  {
-    address: 'native',
-    symbol: 'ETH',
-    name: 'Ether',
-    decimals: 18,
-    logoColor: '#627EEA',
-  },
-  {
-    address: WETH_ADDRESS,
-    symbol: 'WETH',
-    name: 'Wrapped Ether',
-    decimals: 18,
-    logoColor: '#627EEA',
-  },
-  {
-    address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
-    symbol: 'USDC',
-    name: 'USD Coin',
-    decimals: 6,
-    logoColor: '#2775CA',
-  },
-];
-
 // ============ Helpers ============
 
 export function isNativeETH(token: Token): boolean {
@@ -47,8 +19,8 @@ export function isNativeETH(token: Token): boolean {
 }
 
 /** Returns the on-chain address to use for swaps (WETH for native ETH). */
-export function getSwapAddress(token: Token): Address {
-  return isNativeETH(token) ? WETH_ADDRESS : (token.address as Address);
+export function getSwapAddress(token: Token, weth: Address): Address {
+  return isNativeETH(token) ? weth : (token.address as Address);
 }
 
 /** Apply slippage tolerance: amountOut * (10000 - slippageBps) / 10000 */
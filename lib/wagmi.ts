@@ -1,24 +1,19 @@
-import { createConfig, http } from 'wagmi';
-import { baseSepolia } from 'viem/chains';
+import { createConfig } from 'wagmi';
+import { Transport } from 'viem';
 import { injected } from 'wagmi/connectors';
+import { rpcTransport } from './rpc';
+import { supportedChains } from './chains';
+import { DEPLOYMENTS } from './deployments';
 
 export const config = createConfig({
-  chains: [baseSepolia],
+  chains: supportedChains,
   connectors: [
     injected(),
     // Temporarily removed coinbaseWallet due to getChainId error
     // Can be re-added once connector compatibility is resolved
   ],
-  transports: {
-    [baseSepolia.id]: http(
-      // Use public RPC to avoid rate limits and CORS issues
-      'https://sepolia.base.org',
-      {
-        // Add retry and timeout configuration
-        retryCount: 3,
-        retryDelay: 1000,
-        timeout: 10000,
-      }
-    ),
-  },
+  // Same endpoints, queue and backoff as the read clients
+  transports: Object.fromEntries(
+    Object.values(DEPLOYMENTS).map((deployment) => [deployment.chain.id, rpcTransport(deployment.rpcUrls)])
+  ) as Record<number, Transport>,
 });
@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { zeroHash } from 'viem';
+import { IndexedEvent } from '@/lib/events';
+import { TEST_CONTRACT } from './fixtures';
+
+let dir: string;
+let store: typeof import('@/lib/eventStore');
+
+function event(blockNumber: bigint, logIndex = 0): IndexedEvent {
+  return { eventName: 'GameCreated', args: { gameId: blockNumber }, blockNumber, blockHash: zeroHash, logIndex, transactionHash: zeroHash };
+}
+
+const checkpoint = (blockNumber: bigint) => ({ blockNumber, blockHash: zeroHash });
+
+describe('eventStore', () => {
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'event-store-'));
+    vi.stubEnv('INDEXER_DATA_DIR', dir);
+    store = await import('@/lib/eventStore');
+  });
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends chunks and reloads them with the checkpoint', async () => {
+    const state = await store.loadEventStore(TEST_CONTRACT.chainId, TEST_CONTRACT.address);
+    expect(state.checkpoint).toBeNull();
+
+    for (const blockNumber of [10n, 20n]) {
+      const events = [event(blockNumber)];
+      state.events.push(...events);
+      state.checkpoint = checkpoint(blockNumber);
+      await store.appendToEventStore(state, events);
+    }
+    state.startBlock = 5n;
+    await store.appendToEventStore(state, []);
+
+    const loaded = await store.loadEventStore(TEST_CONTRACT.chainId, TEST_CONTRACT.address);
+    expect(loaded.events.map((e) => e.blockNumber)).toEqual([10n, 20n]);
+    expect(loaded).toMatchObject({ startBlock: 5n, checkpoint: checkpoint(20n) });
+  });
+
+  it('drops events an interrupted append logged past the checkpoint', async () => {
+    const state = await store.loadEventStore(TEST_CONTRACT.chainId, TEST_CONTRACT.address);
+    const log = (await fs.readdir(dir)).find((file) => file.endsWith('.ndjson'))!;
+    // As if the process died between appending the chunk and moving the checkpoint
+    await fs.appendFile(path.join(dir, log), `${JSON.stringify({ ...event(30n), blockNumber: { $bigint: '30' }, args: {} })}\n`);
+
+    const loaded = await store.loadEventStore(TEST_CONTRACT.chainId, TEST_CONTRACT.address);
+    expect(loaded.events.map((e) => e.blockNumber)).toEqual([10n, 20n]);
+    expect(loaded.checkpoint).toEqual(state.checkpoint);
+    // The log was compacted, so a re-fetched chunk isn't duplicated
+    const events = [event(30n)];
+    loaded.events.push(...events);
+    loaded.checkpoint = checkpoint(30n);
+    await store.appendToEventStore(loaded, events);
+    expect((await store.loadEventStore(TEST_CONTRACT.chainId, TEST_CONTRACT.address)).events).toHaveLength(3);
+  });
+
+  it('rewrites the log after a rewind', async () => {
+    const state = await store.loadEventStore(TEST_CONTRACT.chainId, TEST_CONTRACT.address);
+    state.events = state.events.filter((e) => e.blockNumber <= 10n);
+    state.checkpoint = checkpoint(15n);
+    await store.saveEventStore(state);
+
+    const loaded = await store.loadEventStore(TEST_CONTRACT.chainId, TEST_CONTRACT.address);
+    expect(loaded.events.map((e) => e.blockNumber)).toEqual([10n]);
+    expect(loaded.checkpoint).toEqual(checkpoint(15n));
+  });
+});
@@ -0,0 +1,116 @@
+import { Address, Chain, PublicClient, Transport } from 'viem';
+import { baseSepolia } from 'viem/chains';
+import { Round } from '@/lib/decoders';
+
+// ============ Fixture state ============
+
+export interface FakePlayer {
+  address: Address;
+  squareIndex: number;
+  alive: boolean;
+  /** Game-start ETH from `players()` */
+  startETH: bigint;
+  /** `getRoundStartETH` per round number; missing rounds read as 0 */
+  roundStartETH?: Record<number, bigint>;
+  /** Native balance served through Multicall3 `getEthBalance` */
+  balance: bigint;
+  penaltyETH?: bigint;
+  eliminationRound?: number;
+}
+
+export interface FakeGameState {
+  players: FakePlayer[];
+  /** `rounds(gameId, n)` per round number */
+  rounds: Record<number, Partial<Round>>;
+  /** ERC-20 `balanceOf` per holder, the same for every token; missing holders read as 0 */
+  tokenBalances?: Record<Address, bigint>;
+  /** Functions that revert, e.g. to simulate a failing read */
+  failing?: string[];
+}
+
+interface FakeCall {
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+type FakeResult = { status: 'success'; result: unknown } | { status: 'failure'; error: Error };
+
+// ============ Fake client ============
+
+function playerAt(state: FakeGameState, address: unknown): FakePlayer {
+  const player = state.players.find((p) => p.address.toLowerCase() === String(address).toLowerCase());
+  if (!player) throw new Error(`Unknown player ${address}`);
+  return player;
+}
+
+/** Answer one contract read from the fixture state, with the tuple shapes the decoders expect */
+function answer(state: FakeGameState, { functionName, args = [] }: FakeCall): unknown {
+  if (state.failing?.includes(functionName)) throw new Error(`${functionName} reverted`);
+  switch (functionName) {
+    case 'getGamePlayers':
+      return state.players.map((player) => player.address);
+    case 'rounds': {
+      const round = state.rounds[Number(args[1])];
+      return { roundNumber: BigInt(args[1] as bigint), startTime: 0n, endTime: 0n, alivePlayers: 0n, cutoffRank: 0n, finalized: false, ...round };
+    }
+    case 'getPlayer': {
+      const player = playerAt(state, args[1]);
+      return { squareIndex: player.squareIndex, penaltyETH: player.penaltyETH ?? 0n, alive: player.alive, eliminationReason: '' };
+    }
+    case 'players': {
+      const player = playerAt(state, args[1]);
+      return {
+        wallet: player.address,
+        squareIndex: player.squareIndex,
+        startETH: player.startETH,
+        penaltyETH: player.penaltyETH ?? 0n,
+        alive: player.alive,
+        registered: true,
+        eliminationRound: BigInt(player.eliminationRound ?? 0),
+      };
+    }
+    case 'getRoundStartETH':
+      return playerAt(state, args[2]).roundStartETH?.[Number(args[1])] ?? 0n;
+    case 'getAdjustedBalances': {
+      const player = playerAt(state, args[1]);
+      return [player.balance - (player.penaltyETH ?? 0n), 0n, 0n, 0n];
+    }
+    case 'getEthBalance':
+      return playerAt(state, args[0]).balance;
+    case 'balanceOf':
+      return state.tokenBalances?.[args[0] as Address] ?? 0n;
+    default:
+      throw new Error(`Fake client has no answer for ${functionName}()`);
+  }
+}
+
+/**
+ * A public client that serves `readContract` and `multicall` from fixture
+ * game, player and round state instead of an RPC. Counts the requests it
+ * gets so tests can check batching.
+ */
+export function createFakeClient(state: FakeGameState): PublicClient<Transport, Chain> & { requests: number } {
+  const client = {
+    chain: baseSepolia,
+    requests: 0,
+    async readContract(call: FakeCall) {
+      client.requests++;
+      return answer(state, call);
+    },
+    async multicall({ contracts, allowFailure = true }: { contracts: FakeCall[]; allowFailure?: boolean }) {
+      client.requests++;
+      const results: FakeResult[] = contracts.map((call) => {
+        try {
+          return { status: 'success', result: answer(state, call) };
+        } catch (error) {
+          return { status: 'failure', error: error as Error };
+        }
+      });
+      if (allowFailure) return results;
+      const failure = results.find((result) => result.status === 'failure');
+      if (failure && failure.status === 'failure') throw failure.error;
+      return results.map((result) => (result.status === 'success' ? result.result : undefined));
+    },
+  };
+  return client as unknown as PublicClient<Transport, Chain> & { requests: number };
+}
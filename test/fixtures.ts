@@ -0,0 +1,65 @@
+import { Address, parseEther } from 'viem';
+import { ContractDeployment } from '@/lib/deployments';
+import { PlayerData } from '@/lib/gameHelpers';
+import { StandingInput } from '@/lib/roundStandings';
+import { FakeGameState } from './fakeClient';
+
+export const ALICE: Address = '0x00000000000000000000000000000000000000a1';
+export const BOB: Address = '0x00000000000000000000000000000000000000b2';
+export const CAROL: Address = '0x00000000000000000000000000000000000000c3';
+export const DAVE: Address = '0x00000000000000000000000000000000000000d4';
+
+export const TEST_CONTRACT: ContractDeployment = {
+  id: 'test',
+  label: 'Test',
+  chainId: 84532,
+  address: '0x0000000000000000000000000000000000001234',
+  abiVersion: 'v2',
+  startBlock: 0n,
+  current: true,
+};
+
+/** A PlayerData with everything zeroed except what the test cares about */
+export function playerData(overrides: Partial<PlayerData> & Pick<PlayerData, 'wallet'>): PlayerData {
+  return {
+    squareIndex: 0,
+    rank: 0,
+    isEliminated: false,
+    gainPercent: 0,
+    balance: 0n,
+    penaltyETH: 0n,
+    adjustedBalance: 0n,
+    adjustedGainPercent: 0,
+    portfolio: { holdings: [], totalETH: 0n, totalUSD: null },
+    portfolioGainPercent: 0,
+    ...overrides,
+  };
+}
+
+/** An alive StandingInput starting the round at `start` ETH and holding `current` ETH */
+export function standing(address: Address, squareIndex: number, start: string, current: string, overrides: Partial<StandingInput> = {}): StandingInput {
+  const currentETH = parseEther(current);
+  return {
+    address,
+    squareIndex,
+    alive: true,
+    roundStartETH: parseEther(start),
+    startETH: parseEther(start),
+    currentETH,
+    adjustedETH: currentETH,
+    ...overrides,
+  };
+}
+
+/** Round 2 of a four-player game: Alice up 10 %, Bob flat, Carol down 5 %, Dave never snapshotted */
+export function roundTwoState(): FakeGameState {
+  return {
+    rounds: { 2: { roundNumber: 2n, alivePlayers: 4n, cutoffRank: 2n } },
+    players: [
+      { address: ALICE, squareIndex: 0, alive: true, startETH: parseEther('1'), roundStartETH: { 2: parseEther('1') }, balance: parseEther('1.1') },
+      { address: BOB, squareIndex: 1, alive: true, startETH: parseEther('1'), roundStartETH: { 2: parseEther('1') }, balance: parseEther('1') },
+      { address: CAROL, squareIndex: 2, alive: true, startETH: parseEther('1'), roundStartETH: { 2: parseEther('1') }, balance: parseEther('0.95'), penaltyETH: parseEther('0.05') },
+      { address: DAVE, squareIndex: 3, alive: true, startETH: 0n, balance: parseEther('2') },
+    ],
+  };
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseEther } from 'viem';
+import { fetchPlayerBatch, fetchRoundStandingInputs } from '@/lib/gameHelpers';
+import { computeRoundStandings } from '@/lib/roundStandings';
+import { createFakeClient, FakeGameState } from './fakeClient';
+import { ALICE, BOB, CAROL, DAVE, roundTwoState, TEST_CONTRACT } from './fixtures';
+
+let client: ReturnType<typeof createFakeClient>;
+
+vi.mock('@/lib/contract', () => ({
+  getPublicClient: () => client,
+}));
+
+function serve(state: FakeGameState) {
+  client = createFakeClient(state);
+}
+
+describe('fetchRoundStandingInputs', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads the round and every player in two requests', async () => {
+    serve(roundTwoState());
+    const { round, players } = await fetchRoundStandingInputs(TEST_CONTRACT, 1n, 2n);
+
+    expect(round).toMatchObject({ roundNumber: 2n, alivePlayers: 4n, cutoffRank: 2n });
+    expect(players.map((p) => p.address)).toEqual([ALICE, BOB, CAROL, DAVE]);
+    expect(players[2]).toMatchObject({
+      squareIndex: 2,
+      roundStartETH: parseEther('1'),
+      currentETH: parseEther('0.95'),
+      adjustedETH: parseEther('0.9'),
+    });
+    expect(client.requests).toBe(2);
+  });
+
+  it('reads a missing round snapshot as zero so standings fall back', async () => {
+    serve(roundTwoState());
+    const { round, players } = await fetchRoundStandingInputs(TEST_CONTRACT, 1n, 2n);
+    const dave = players.find((p) => p.address === DAVE)!;
+    expect(dave.roundStartETH).toBe(0n);
+
+    const standings = computeRoundStandings(players, round, 'adjusted');
+    expect(standings.standings.map((s) => [s.address, s.baseline])).toEqual([
+      [ALICE, 'round'],
+      [BOB, 'round'],
+      [DAVE, 'none'],
+      [CAROL, 'round'],
+    ]);
+    // Dave's 0 % ties Bob's flat round and loses on square
+    expect(standings.eliminated).toEqual([DAVE, CAROL]);
+  });
+
+  it('leaves out players whose reads fail', async () => {
+    serve({ ...roundTwoState(), failing: ['getAdjustedBalances'] });
+    const { players } = await fetchRoundStandingInputs(TEST_CONTRACT, 1n, 2n);
+    expect(players).toEqual([]);
+    expect(console.error).toHaveBeenCalledTimes(4);
+  });
+
+  it('throws when the round itself cannot be read', async () => {
+    serve({ ...roundTwoState(), failing: ['rounds'] });
+    await expect(fetchRoundStandingInputs(TEST_CONTRACT, 1n, 2n)).rejects.toThrow('rounds reverted');
+  });
+});
+
+describe('fetchPlayerBatch', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('values portfolios in ETH alone when token prices cannot be loaded', async () => {
+    const state = roundTwoState();
+    serve({ ...state, failing: ['getWhitelistedTokens'], tokenBalances: { [ALICE]: 5_000_000n } });
+    const { players, rpcCalls } = await fetchPlayerBatch(TEST_CONTRACT, 1n, [ALICE, BOB]);
+
+    expect(players).toHaveLength(2);
+    const alice = players[0];
+    expect(alice.portfolio.totalETH).toBe(parseEther('1.1'));
+    expect(alice.portfolio.totalUSD).toBeNull();
+    expect(alice.portfolio.holdings.map((h) => [h.symbol, h.balance, h.valueETH])).toEqual([
+      ['ETH', parseEther('1.1'), parseEther('1.1')],
+      ['WETH', 5_000_000n, null],
+      ['USDC', 5_000_000n, null],
+    ]);
+    // The failed price table read plus one multicall
+    expect(rpcCalls).toBe(2);
+  });
+});
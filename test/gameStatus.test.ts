@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Game, Round } from '@/lib/decoders';
+import { canPerform, DEFAULT_GRACE_PERIOD, deriveGameStatus, GameAction, GameStatus } from '@/lib/gameStatus';
+
+const DEADLINE = 1_000;
+const ROUND_END = 5_000;
+
+function game(overrides: Partial<Game> = {}): Game {
+  return {
+    startTime: 0n,
+    currentRound: 0n,
+    playerCount: 2n,
+    minPlayers: 4n,
+    registrationDeadline: BigInt(DEADLINE),
+    finalized: false,
+    cancelled: false,
+    ...overrides,
+  } as Game;
+}
+
+function round(overrides: Partial<Round> = {}): Round {
+  return { roundNumber: 2n, startTime: 4_000n, endTime: BigInt(ROUND_END), alivePlayers: 4n, cutoffRank: 2n, finalized: false, ...overrides };
+}
+
+const live = game({ startTime: 2_000n, currentRound: 2n, playerCount: 4n });
+
+describe('deriveGameStatus', () => {
+  it('keeps registration open through the deadline', () => {
+    expect(deriveGameStatus(game(), { now: DEADLINE })).toBe('REGISTRATION_OPEN');
+    expect(deriveGameStatus(game({ registrationDeadline: 0n }), { now: 1e9 })).toBe('REGISTRATION_OPEN');
+  });
+
+  it('is ready to start once the deadline passes with enough players', () => {
+    expect(deriveGameStatus(game({ playerCount: 4n }), { now: DEADLINE + 1 })).toBe('READY_TO_START');
+    expect(deriveGameStatus(game({ playerCount: 4n }), { now: DEADLINE + DEFAULT_GRACE_PERIOD })).toBe('READY_TO_START');
+  });
+
+  it('is underfilled until the grace period ends, then cancellable', () => {
+    expect(deriveGameStatus(game(), { now: DEADLINE + 1 })).toBe('UNDERFILLED');
+    expect(deriveGameStatus(game(), { now: DEADLINE + DEFAULT_GRACE_PERIOD - 1 })).toBe('UNDERFILLED');
+    expect(deriveGameStatus(game(), { now: DEADLINE + DEFAULT_GRACE_PERIOD })).toBe('CANCELLABLE');
+  });
+
+  it('uses the contract grace period when given', () => {
+    expect(deriveGameStatus(game(), { now: DEADLINE + 60, gracePeriod: 60 })).toBe('CANCELLABLE');
+    expect(deriveGameStatus(game(), { now: DEADLINE + 59, gracePeriod: 60 })).toBe('UNDERFILLED');
+  });
+
+  it('awaits finalization once the current round reaches its end time', () => {
+    expect(deriveGameStatus(live, { now: ROUND_END - 1, round: round() })).toBe('LIVE');
+    expect(deriveGameStatus(live, { now: ROUND_END, round: round() })).toBe('AWAITING_FINALIZATION');
+  });
+
+  it('stays live when the round is finalized, stale, unset or unknown', () => {
+    const now = ROUND_END + 1;
+    expect(deriveGameStatus(live, { now, round: round({ finalized: true }) })).toBe('LIVE');
+    expect(deriveGameStatus(live, { now, round: round({ roundNumber: 1n }) })).toBe('LIVE');
+    expect(deriveGameStatus(live, { now, round: round({ endTime: 0n }) })).toBe('LIVE');
+    expect(deriveGameStatus(live, { now })).toBe('LIVE');
+  });
+
+  it('reports finished and cancelled games whatever the clock says', () => {
+    expect(deriveGameStatus({ ...live, finalized: true }, { now: ROUND_END, round: round() })).toBe('FINALIZED');
+    expect(deriveGameStatus(game({ cancelled: true }), { now: DEADLINE + DEFAULT_GRACE_PERIOD })).toBe('CANCELLED');
+  });
+});
+
+describe('canPerform', () => {
+  const actions: GameAction[] = ['register', 'start', 'cancel', 'finalizeRound'];
+  const allowed: Record<GameStatus, GameAction | null> = {
+    REGISTRATION_OPEN: 'register',
+    READY_TO_START: 'start',
+    UNDERFILLED: null,
+    CANCELLABLE: 'cancel',
+    LIVE: null,
+    AWAITING_FINALIZATION: 'finalizeRound',
+    FINALIZED: null,
+    CANCELLED: null,
+  };
+
+  it.each(Object.entries(allowed) as [GameStatus, GameAction | null][])('allows only the matching action when %s', (status, action) => {
+    for (const candidate of actions) {
+      expect(canPerform(status, candidate)).toBe(candidate === action);
+    }
+  });
+});
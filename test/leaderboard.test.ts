@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseEther, zeroHash } from 'viem';
+import { Game } from '@/lib/decoders';
+import { IndexedEvent } from '@/lib/events';
+import { aggregateLeaderboard } from '@/lib/leaderboard';
+import { ALICE, BOB, CAROL } from './fixtures';
+
+let logIndex = 0;
+function event(eventName: string, args: Record<string, unknown>): IndexedEvent {
+  return { eventName, args: { gameId: 1n, ...args }, blockNumber: 1n, blockHash: zeroHash, logIndex: logIndex++, transactionHash: zeroHash };
+}
+
+const game = { entryFee: parseEther('0.1'), finalized: true, cancelled: false } as Game;
+
+describe('aggregateLeaderboard', () => {
+  it('counts keeper rewards toward net, only in games the wallet played', () => {
+    const events = [
+      event('PlayerRegistered', { player: ALICE }),
+      event('PlayerRegistered', { player: BOB }),
+      event('RoundStarted', { starter: ALICE, reward: parseEther('0.01') }),
+      event('FinalizationRewardPaid', { roundNumber: 1n, finalizer: CAROL, rewardAmount: parseEther('0.02') }),
+      event('FinalizationRewardPaid', { roundNumber: 1n, finalizer: BOB, rewardAmount: parseEther('0.02') }),
+      event('PlayerEliminated', { player: BOB }),
+      event('PrizePaid', { winner: ALICE, place: 1n, amount: parseEther('0.15') }),
+    ];
+    const entries = aggregateLeaderboard(events, new Map([[1n, game]]));
+    const byAddress = new Map(entries.map((entry) => [entry.address, entry]));
+
+    expect(byAddress.has(CAROL)).toBe(false);
+    expect(byAddress.get(ALICE)).toMatchObject({ rewards: parseEther('0.01').toString(), net: parseEther('0.06').toString() });
+    expect(byAddress.get(BOB)).toMatchObject({ rewards: parseEther('0.02').toString(), net: (-parseEther('0.08')).toString() });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { parseEther } from 'viem';
+import { inferPlacements, PlacementInput, placementPrizes, splitPrizePool } from '@/lib/placements';
+import { ALICE, BOB, CAROL, DAVE } from './fixtures';
+
+const alive = (address: PlacementInput['address'], gainPercent?: number): PlacementInput => ({ address, alive: true, eliminationRound: 0, gainPercent });
+const out = (address: PlacementInput['address'], eliminationRound: number, gainPercent?: number): PlacementInput => ({ address, alive: false, eliminationRound, gainPercent });
+
+describe('splitPrizePool', () => {
+  it('splits 60 / 30 / 10', () => {
+    expect(splitPrizePool(parseEther('1'))).toEqual({ first: parseEther('0.6'), second: parseEther('0.3'), third: parseEther('0.1') });
+  });
+
+  it('rounds each share down like the contract', () => {
+    expect(splitPrizePool(7n)).toEqual({ first: 4n, second: 2n, third: 0n });
+  });
+});
+
+describe('inferPlacements', () => {
+  it('places the survivor, then the first out in the final round and the round before', () => {
+    const placements = inferPlacements([out(DAVE, 1), out(BOB, 3), alive(ALICE), out(CAROL, 2)], 3);
+    expect([placements.first, placements.second, placements.third]).toEqual([ALICE, BOB, CAROL]);
+    expect(placements.others.map((p) => p.address)).toEqual([DAVE]);
+  });
+
+  it('orders players out in the same round by gain', () => {
+    const placements = inferPlacements([alive(ALICE), out(BOB, 3, -20), out(CAROL, 3, 5), out(DAVE, 2)], 3);
+    expect(placements.second).toBe(CAROL);
+    expect(placements.third).toBe(DAVE);
+    expect(placements.others.map((p) => p.address)).toEqual([BOB]);
+  });
+
+  it('ranks extra survivors by gain ahead of every eliminated player', () => {
+    const placements = inferPlacements([out(DAVE, 3), alive(ALICE, 2), alive(BOB, 8), alive(CAROL, -1)], 3);
+    expect([placements.first, placements.second, placements.third]).toEqual([BOB, ALICE, CAROL]);
+    expect(placements.others.map((p) => p.address)).toEqual([DAVE]);
+  });
+
+  it('leaves places empty with fewer than three finishers', () => {
+    const placements = inferPlacements([alive(ALICE), out(BOB, 1)], 1);
+    expect([placements.first, placements.second, placements.third]).toEqual([ALICE, BOB, null]);
+    expect(placements.others).toEqual([]);
+  });
+
+  it('leaves 3rd empty when nobody went out in the round before', () => {
+    const placements = inferPlacements([alive(ALICE), out(BOB, 3), out(CAROL, 1)], 3);
+    expect(placements.third).toBeNull();
+    expect(placements.others.map((p) => p.address)).toEqual([CAROL]);
+  });
+
+  it('never promotes an eliminated player to 1st', () => {
+    const placements = inferPlacements([out(ALICE, 2), out(BOB, 1)], 2);
+    expect([placements.first, placements.second, placements.third]).toEqual([null, ALICE, BOB]);
+  });
+});
+
+describe('placementPrizes', () => {
+  const pool = parseEther('1');
+
+  it('pays each filled place its share', () => {
+    expect(placementPrizes({ first: ALICE, second: BOB, third: CAROL }, pool)).toEqual(splitPrizePool(pool));
+  });
+
+  it('gives the shares of unfilled places to 1st', () => {
+    expect(placementPrizes({ first: ALICE, second: BOB, third: null }, pool)).toEqual({ first: parseEther('0.7'), second: parseEther('0.3'), third: 0n });
+    expect(placementPrizes({ first: ALICE, second: null, third: null }, pool)).toEqual({ first: pool, second: 0n, third: 0n });
+  });
+
+  it('pays nothing without a winner', () => {
+    expect(placementPrizes({ first: null, second: BOB, third: CAROL }, pool)).toEqual({ first: 0n, second: 0n, third: 0n });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRankings, rankPlayers } from '@/lib/gameHelpers';
+import { ALICE, BOB, CAROL, DAVE, playerData } from './fixtures';
+
+describe('calculateRankings', () => {
+  it('ranks by gain, best first', () => {
+    const rankings = calculateRankings([
+      playerData({ wallet: ALICE, gainPercent: -3 }),
+      playerData({ wallet: BOB, gainPercent: 12 }),
+      playerData({ wallet: CAROL, gainPercent: 4 }),
+    ]);
+    expect([rankings.get(BOB), rankings.get(CAROL), rankings.get(ALICE)]).toEqual([1, 2, 3]);
+  });
+
+  it('ranks eliminated players below every alive player', () => {
+    const rankings = calculateRankings([
+      playerData({ wallet: ALICE, gainPercent: 50, isEliminated: true }),
+      playerData({ wallet: BOB, gainPercent: -90 }),
+    ]);
+    expect(rankings.get(BOB)).toBe(1);
+    expect(rankings.get(ALICE)).toBe(2);
+  });
+
+  it('scores by the requested mode', () => {
+    const players = [
+      playerData({ wallet: ALICE, gainPercent: 10, adjustedGainPercent: -5, portfolioGainPercent: 1 }),
+      playerData({ wallet: BOB, gainPercent: 2, adjustedGainPercent: 2, portfolioGainPercent: 3 }),
+    ];
+    expect(calculateRankings(players, 'raw').get(ALICE)).toBe(1);
+    expect(calculateRankings(players, 'adjusted').get(BOB)).toBe(1);
+    expect(calculateRankings(players, 'portfolio').get(BOB)).toBe(1);
+  });
+
+  it('keeps tied players in input order with distinct ranks', () => {
+    const rankings = calculateRankings([
+      playerData({ wallet: ALICE, gainPercent: 0 }),
+      playerData({ wallet: BOB, gainPercent: 0 }),
+      playerData({ wallet: CAROL, gainPercent: 0 }),
+    ]);
+    expect([rankings.get(ALICE), rankings.get(BOB), rankings.get(CAROL)]).toEqual([1, 2, 3]);
+  });
+
+  it('handles fewer than three players', () => {
+    expect(calculateRankings([]).size).toBe(0);
+    expect(calculateRankings([playerData({ wallet: DAVE })]).get(DAVE)).toBe(1);
+  });
+});
+
+describe('rankPlayers', () => {
+  it('fills in rank on each player', () => {
+    const ranked = rankPlayers([playerData({ wallet: ALICE, gainPercent: 1 }), playerData({ wallet: BOB, gainPercent: 2 })]);
+    expect(ranked.map((player) => [player.wallet, player.rank])).toEqual([[ALICE, 2], [BOB, 1]]);
+  });
+});
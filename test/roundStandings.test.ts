@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { parseEther } from 'viem';
+import { computeRoundStandings } from '@/lib/roundStandings';
+import { ALICE, BOB, CAROL, DAVE, standing } from './fixtures';
+
+describe('computeRoundStandings', () => {
+  it('eliminates ranks past the cutoff', () => {
+    const result = computeRoundStandings(
+      [standing(ALICE, 0, '1', '1.2'), standing(BOB, 1, '1', '0.9'), standing(CAROL, 2, '1', '1.05')],
+      { cutoffRank: 2n }
+    );
+    expect(result.standings.map((s) => s.address)).toEqual([ALICE, CAROL, BOB]);
+    expect(result.eliminated).toEqual([BOB]);
+    expect(result.outcome).toBe('ELIMINATIONS');
+    expect(result.cutGainPercent).toBe(5);
+    expect(result.standings[2].reason).toBe('BELOW_CUTOFF');
+    // Bob needs 0.15 ETH to reach Carol's +5 %
+    expect(result.standings[2].marginETH).toBe(-parseEther('0.15'));
+  });
+
+  it('falls back to game-start ETH when roundStartETH is zero', () => {
+    const result = computeRoundStandings(
+      [standing(ALICE, 0, '1', '1.1', { roundStartETH: 0n, startETH: parseEther('2') }), standing(BOB, 1, '1', '1')],
+      { cutoffRank: 1n }
+    );
+    const alice = result.standings.find((s) => s.address === ALICE)!;
+    expect(alice.baseline).toBe('game');
+    expect(alice.gainPercent).toBe(-45);
+    expect(result.eliminated).toEqual([ALICE]);
+  });
+
+  it('scores a player with no baseline at 0 % and no margin', () => {
+    const result = computeRoundStandings(
+      [standing(ALICE, 0, '1', '0.8'), standing(BOB, 1, '0', '5')],
+      { cutoffRank: 1n }
+    );
+    const bob = result.standings.find((s) => s.address === BOB)!;
+    expect(bob).toMatchObject({ baseline: 'none', gainPercent: 0, rank: 1, marginETH: null });
+  });
+
+  it('breaks ties at the cutoff by lower square', () => {
+    const result = computeRoundStandings(
+      [standing(CAROL, 2, '1', '1.1'), standing(BOB, 1, '1', '1.1'), standing(ALICE, 0, '1', '1.3')],
+      { cutoffRank: 2n }
+    );
+    expect(result.standings.map((s) => s.address)).toEqual([ALICE, BOB, CAROL]);
+    expect(result.standings[2]).toMatchObject({ eliminated: true, reason: 'LOST_TIEBREAK', marginETH: 0n });
+  });
+
+  it('lets everyone advance when all gains are tied', () => {
+    const result = computeRoundStandings(
+      [standing(ALICE, 0, '1', '1'), standing(BOB, 1, '2', '2'), standing(CAROL, 2, '1', '1')],
+      { cutoffRank: 1n }
+    );
+    expect(result.outcome).toBe('ALL_TIED');
+    expect(result.eliminated).toEqual([]);
+    expect(result.cutGainPercent).toBeNull();
+  });
+
+  it('scores after penalties in adjusted mode', () => {
+    const players = [
+      standing(ALICE, 0, '1', '1.2', { adjustedETH: parseEther('0.9') }),
+      standing(BOB, 1, '1', '1.1'),
+    ];
+    expect(computeRoundStandings(players, { cutoffRank: 1n }, 'raw').eliminated).toEqual([BOB]);
+    expect(computeRoundStandings(players, { cutoffRank: 1n }, 'adjusted').eliminated).toEqual([ALICE]);
+  });
+
+  it('clamps the cutoff to the alive players', () => {
+    const result = computeRoundStandings(
+      [standing(ALICE, 0, '1', '1.2'), standing(BOB, 1, '1', '0.9')],
+      { cutoffRank: 5n }
+    );
+    expect(result).toMatchObject({ cutoff: 2, cutoffAdjusted: true, outcome: 'NO_ELIMINATIONS', eliminated: [] });
+  });
+
+  it('handles fewer than three players', () => {
+    expect(computeRoundStandings([], { cutoffRank: 1n }).outcome).toBe('NO_PLAYERS');
+    const lastStanding = computeRoundStandings(
+      [standing(ALICE, 0, '1', '0.5'), standing(DAVE, 3, '1', '2', { alive: false })],
+      { cutoffRank: 1n }
+    );
+    expect(lastStanding.outcome).toBe('LAST_PLAYER_STANDING');
+    expect(lastStanding.standings.map((s) => s.address)).toEqual([ALICE]);
+    expect(lastStanding.eliminated).toEqual([]);
+  });
+});